@@ -0,0 +1,85 @@
+// Renders the orbit animation frame by frame into PNGs, for marketing stills and video loops.
+//
+//   pnpm build && pnpm preview      (in another terminal)
+//   pnpm capture:orbit --width 3840 --height 2160 --fps 30
+//
+// Playwright's browser is downloaded separately, once:
+//   pnpm exec playwright install chromium
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { chromium } from 'playwright';
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'http://localhost:4321/' },
+    out: { type: 'string', default: 'captures/orbit' },
+    width: { type: 'string', default: '1920' },
+    height: { type: 'string', default: '1080' },
+    fps: { type: 'string', default: '30' },
+    start: { type: 'string', default: '0' }, // seconds into the timeline
+    frames: { type: 'string' }, // defaults to one full cycle
+    background: { type: 'string' }, // CSS color, transparent when omitted
+    'no-texts': { type: 'boolean', default: false },
+    // Page layout the capture is framed from, texts keep their size relative to it
+    'viewport-width': { type: 'string', default: '1440' },
+    'viewport-height': { type: 'string', default: '900' }
+  }
+});
+
+const outDir = resolve(args.out);
+await mkdir(outDir, { recursive: true });
+
+const captureUrl = new URL(args.url);
+captureUrl.searchParams.set('capture', '');
+
+const browser = await chromium.launch({ args: ['--use-angle=swiftshader', '--enable-unsafe-swiftshader'] });
+try {
+  const page = await browser.newPage({
+    viewport: { width: Number(args['viewport-width']), height: Number(args['viewport-height']) }
+  });
+  page.on('pageerror', (error) => console.error('Page error:', error));
+
+  let saved = 0;
+  await page.exposeFunction('saveOrbitFrame', async (index, base64) => {
+    await writeFile(join(outDir, `frame-${String(index).padStart(5, '0')}.png`), Buffer.from(base64, 'base64'));
+    saved++;
+    process.stdout.write(`\rSaved ${saved} frames`);
+  });
+
+  await page.goto(captureUrl.href, { waitUntil: 'networkidle' });
+  await page.waitForFunction(() => typeof window.orbitSystemCapture === 'function');
+
+  await page.evaluate(
+    async (options) => {
+      await document.fonts.ready;
+      await window.orbitSystemCapture(options, async ({ index, blob }) => {
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        await window.saveOrbitFrame(index, btoa(binary));
+      });
+    },
+    {
+      width: Number(args.width),
+      height: Number(args.height),
+      fps: Number(args.fps),
+      startTime: Number(args.start),
+      frameCount: args.frames === undefined ? undefined : Number(args.frames),
+      includeTexts: !args['no-texts'],
+      background: args.background ?? null
+    }
+  );
+
+  console.log(`\nFrames written to ${outDir}`);
+  console.log('MP4: ffmpeg -framerate %s -i %s/frame-%%05d.png -c:v libx264 -pix_fmt yuv420p orbit.mp4', args.fps, outDir);
+  console.log(
+    'GIF: ffmpeg -framerate %s -i %s/frame-%%05d.png -vf "scale=720:-1:flags=lanczos,split[a][b];[a]palettegen[p];[b][p]paletteuse" orbit.gif',
+    args.fps,
+    outDir
+  );
+} finally {
+  await browser.close();
+}
@@ -0,0 +1,98 @@
+import type { OrbitingTextItem } from '../orbiting-spheres';
+
+export interface OrbitTextListEntry {
+  orbitId: string;
+  textIndex: number;
+  item: OrbitingTextItem;
+}
+
+export interface OrbitTextListOptions {
+  list: HTMLOListElement;
+  liveRegion?: HTMLElement | null;
+  onFocus: (entry: OrbitTextListEntry) => void;
+  onBlur: () => void; // focus left the list altogether
+  onActivate: (entry: OrbitTextListEntry) => void;
+}
+
+export const getTextItemLabel = (item: OrbitingTextItem): string =>
+  [item.text1, item.text2].filter(Boolean).join(' ');
+
+// Screen reader and keyboard counterpart of the orbit labels: one button per text item in an
+// ordered list, in orbit order, plus a polite live region for stage announcements. The canvases
+// and the positioned labels stay hidden from assistive technology
+export class OrbitTextList {
+  private options: OrbitTextListOptions;
+  private entries: OrbitTextListEntry[];
+  private buttons: HTMLButtonElement[] = [];
+
+  constructor(options: OrbitTextListOptions, entries: OrbitTextListEntry[]) {
+    this.options = options;
+    this.entries = entries;
+
+    this.render();
+    options.list.addEventListener('focusin', this.handleFocusIn);
+    options.list.addEventListener('focusout', this.handleFocusOut);
+    options.list.addEventListener('click', this.handleClick);
+  }
+
+  private render(): void {
+    const { list } = this.options;
+    list.replaceChildren();
+    this.buttons = [];
+
+    for (const [index, entry] of this.entries.entries()) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = getTextItemLabel(entry.item);
+      button.dataset.entryIndex = index.toString();
+
+      const listItem = document.createElement('li');
+      listItem.appendChild(button);
+      list.appendChild(listItem);
+      this.buttons.push(button);
+    }
+  }
+
+  private findEntry(target: EventTarget | null): OrbitTextListEntry | null {
+    const button = target instanceof HTMLElement ? target.closest('button') : null;
+    const index = Number(button?.dataset.entryIndex);
+    return Number.isInteger(index) ? this.entries[index] ?? null : null;
+  }
+
+  private handleFocusIn = (event: FocusEvent): void => {
+    const entry = this.findEntry(event.target);
+    if (entry) this.options.onFocus(entry);
+  };
+
+  private handleFocusOut = (event: FocusEvent): void => {
+    // Moving between items keeps the list focused
+    if (event.relatedTarget instanceof Node && this.options.list.contains(event.relatedTarget)) return;
+    this.options.onBlur();
+  };
+
+  private handleClick = (event: MouseEvent): void => {
+    const entry = this.findEntry(event.target);
+    if (entry) this.options.onActivate(entry);
+  };
+
+  public announce(message: string): void {
+    const { liveRegion } = this.options;
+    if (!liveRegion) return;
+
+    // Clearing first makes repeated messages announce again
+    liveRegion.textContent = '';
+    requestAnimationFrame(() => {
+      liveRegion.textContent = message;
+    });
+  }
+
+  public dispose(): void {
+    const { list, liveRegion } = this.options;
+    list.removeEventListener('focusin', this.handleFocusIn);
+    list.removeEventListener('focusout', this.handleFocusOut);
+    list.removeEventListener('click', this.handleClick);
+    list.replaceChildren();
+    if (liveRegion) liveRegion.textContent = '';
+    this.buttons = [];
+  }
+}
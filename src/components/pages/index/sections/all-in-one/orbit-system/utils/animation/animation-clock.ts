@@ -0,0 +1,124 @@
+// Time source shared by the orbit system. Subsystems read elapsed time and schedule delays here
+// instead of Date.now/performance.now/setTimeout, so pausing, slow motion and manual stepping move
+// all of them together. Clock time only advances through tick() and step()
+
+export interface AnimationClockOptions {
+  timeScale?: number; // clock seconds per real second
+  maxDelta?: number; // longest real frame counted, in seconds, so a stalled tab doesn't jump ahead
+  now?: () => number; // real time in milliseconds
+}
+
+export interface ClockTimer {
+  cancel: () => void;
+}
+
+interface ScheduledCallback {
+  at: number; // clock time to fire at
+  callback: () => void;
+}
+
+export class AnimationClock {
+  private elapsed: number = 0;
+  private timeScale: number;
+  private maxDelta: number;
+  private now: () => number;
+  private paused: boolean = false;
+  private lastRealTime: number | null = null;
+  private realDelta: number = 0;
+  private scheduled: ScheduledCallback[] = [];
+
+  constructor(options: AnimationClockOptions = {}) {
+    this.timeScale = options.timeScale ?? 1;
+    this.maxDelta = options.maxDelta ?? 0.25;
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  // Advances by the real time since the previous tick, scaled, or not at all while paused.
+  // Called once per rendered frame by whoever owns the render loop
+  public tick(): void {
+    const now = this.now();
+    this.realDelta = this.lastRealTime === null ? 0 : (now - this.lastRealTime) / 1000;
+    this.lastRealTime = now;
+
+    if (!this.paused) {
+      this.advance(Math.min(this.realDelta, this.maxDelta) * this.timeScale);
+    }
+  }
+
+  // Advances by `seconds` of clock time regardless of pause and time scale, for frame-by-frame review
+  public step(seconds: number): void {
+    this.advance(Math.max(0, seconds));
+  }
+
+  // Forgets the previous tick so the next one counts no time, e.g. after the render loop was stopped
+  public resync(): void {
+    this.lastRealTime = null;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setTimeScale(timeScale: number): void {
+    this.timeScale = Math.max(0, timeScale);
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  // Clock seconds since creation, minus time spent paused or stopped
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  // Unscaled duration of the last ticked frame in seconds, for frame-time measurements
+  public getRealDelta(): number {
+    return this.realDelta;
+  }
+
+  // Calls `callback` once `seconds` of clock time have passed, so the delay pauses and scales
+  // with the animation
+  public setTimeout(callback: () => void, seconds: number): ClockTimer {
+    const entry: ScheduledCallback = { at: this.elapsed + Math.max(0, seconds), callback };
+    this.scheduled.push(entry);
+    return { cancel: () => this.removeScheduled(entry) };
+  }
+
+  public clearTimeouts(): void {
+    this.scheduled = [];
+  }
+
+  private removeScheduled(entry: ScheduledCallback): void {
+    const index = this.scheduled.indexOf(entry);
+    if (index !== -1) this.scheduled.splice(index, 1);
+  }
+
+  private advance(delta: number): void {
+    this.elapsed += delta;
+
+    // Fire in due order; callbacks may schedule or cancel others
+    while (true) {
+      let next: ScheduledCallback | null = null;
+      for (const entry of this.scheduled) {
+        if (entry.at <= this.elapsed && (!next || entry.at < next.at)) next = entry;
+      }
+      if (!next) break;
+
+      this.removeScheduled(next);
+      try {
+        next.callback();
+      } catch (error) {
+        console.error('Error in clock timeout:', error);
+      }
+    }
+  }
+}
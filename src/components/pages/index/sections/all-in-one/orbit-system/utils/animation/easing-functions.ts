@@ -1,16 +1,38 @@
-export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'ease-out-back' | 'ease-out-bounce'
 
 export const easingFunctions = {
   linear: (t: number): number => t,
-  
+
   'ease-in': (t: number): number => t * t,
-  
+
   'ease-out': (t: number): number => 1 - Math.pow(1 - t, 2),
-  
-  'ease-in-out': (t: number): number => 
-    t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+
+  'ease-in-out': (t: number): number =>
+    t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+  'ease-out-back': (t: number): number => {
+    const overshoot = 1.70158
+    return 1 + (overshoot + 1) * Math.pow(t - 1, 3) + overshoot * Math.pow(t - 1, 2)
+  },
+
+  'ease-out-bounce': (t: number): number => {
+    const n1 = 7.5625
+    const d1 = 2.75
+
+    if (t < 1 / d1) {
+      return n1 * t * t
+    } else if (t < 2 / d1) {
+      const s = t - 1.5 / d1
+      return n1 * s * s + 0.75
+    } else if (t < 2.5 / d1) {
+      const s = t - 2.25 / d1
+      return n1 * s * s + 0.9375
+    }
+    const s = t - 2.625 / d1
+    return n1 * s * s + 0.984375
+  }
 }
 
 export const applyEasing = (progress: number, easingType: EasingType): number => {
   return easingFunctions[easingType](Math.max(0, Math.min(1, progress)))
-}
\ No newline at end of file
+}
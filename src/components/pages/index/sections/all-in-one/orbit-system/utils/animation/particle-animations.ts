@@ -0,0 +1,283 @@
+import { Vector3 } from 'three';
+import { applyEasing } from './easing-functions';
+import { seededRandom } from '@/utils/particle-arrangements/seeded-random';
+import type { AnimationDirection, AnimationType } from '../config';
+
+// Timing of the enter/loop families (seconds, before animationSpeed is applied)
+export const ENTER_DURATION = 1.2;
+export const ENTER_STAGGER = 5;
+export const LOOP_HOLD_DURATION = 2.5;
+export const LOOP_PERIOD = ENTER_DURATION * 2 + LOOP_HOLD_DURATION;
+
+// Per-frame values shared by every particle of a system
+export interface ParticleAnimationFrame {
+  type: AnimationType;
+  time: number; // seconds since the animation (re)started, scaled by animationSpeed
+  count: number;
+  radius: number;
+  intensity: number;
+  amplitude: number;
+  phase: number;
+  direction: AnimationDirection;
+}
+
+// Per-particle inputs
+export interface ParticleAnimationInput {
+  basePosition: Vector3;
+  index: number;
+  seed: number; // deterministic 0..1 value per particle
+}
+
+// Result written back to the particle
+export interface ParticleAnimationSample {
+  position: Vector3;
+  scale: number;
+  opacity: number;
+}
+
+type ParticleAnimationFn = (
+  frame: ParticleAnimationFrame,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+) => void;
+
+const TWO_PI = Math.PI * 2;
+const _axis = new Vector3(0, 1, 0);
+
+export const isEnterAnimation = (type: AnimationType): boolean => type.startsWith('enter-');
+
+export const isLoopAnimation = (type: AnimationType): boolean => type.startsWith('loop-');
+
+export const isContinuousAnimation = (type: AnimationType): boolean => type.startsWith('continuous-');
+
+const getDirectionSign = (direction: AnimationDirection, seed: number): number => {
+  switch (direction) {
+    case 'clockwise':
+      return -1;
+    case 'counter-clockwise':
+      return 1;
+    case 'random':
+      return seed < 0.5 ? -1 : 1;
+    default:
+      return 1;
+  }
+};
+
+// Seconds added to the frame time for each particle on continuous animations
+const getPhaseOffset = (frame: ParticleAnimationFrame, input: ParticleAnimationInput): number =>
+  input.index * frame.phase;
+
+// Normalized 0..1 delay used to stagger enter and loop animations
+const getStaggerDelay = (frame: ParticleAnimationFrame, input: ParticleAnimationInput): number => {
+  const normalizedIndex = frame.count > 1 ? input.index / (frame.count - 1) : 0;
+  return normalizedIndex * frame.phase * ENTER_STAGGER;
+};
+
+// Progress of an enter-like animation, 0 before the particle starts and 1 once it settled
+const getEnterProgress = (time: number, delay: number): number =>
+  Math.max(0, Math.min(1, (time - delay) / ENTER_DURATION));
+
+// Loops play the enter animation, hold, then play it backwards before restarting
+const getLoopProgress = (time: number, delay: number): number => {
+  const cycleTime = (((time - delay) % LOOP_PERIOD) + LOOP_PERIOD) % LOOP_PERIOD;
+  if (time < delay) return 0;
+  if (cycleTime < ENTER_DURATION) return cycleTime / ENTER_DURATION;
+  if (cycleTime < ENTER_DURATION + LOOP_HOLD_DURATION) return 1;
+  return 1 - (cycleTime - ENTER_DURATION - LOOP_HOLD_DURATION) / ENTER_DURATION;
+};
+
+// Height of the particle normalized to 0 (bottom) .. 1 (top)
+const getNormalizedHeight = (frame: ParticleAnimationFrame, input: ParticleAnimationInput): number => {
+  const radius = frame.radius > 0 ? frame.radius : 1;
+  return Math.max(0, Math.min(1, (input.basePosition.y / radius + 1) / 2));
+};
+
+const fadeBounce = (
+  progress: number,
+  frame: ParticleAnimationFrame,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+): void => {
+  const bounce = applyEasing(progress, 'ease-out-bounce');
+  const dropHeight = frame.radius * 0.5 * frame.amplitude;
+  out.position.copy(input.basePosition);
+  out.position.y += (1 - bounce) * dropHeight;
+  out.opacity = applyEasing(progress, 'ease-out');
+  out.scale = 1 - (1 - bounce) * frame.intensity;
+};
+
+const waveEmerge = (
+  progress: number,
+  frame: ParticleAnimationFrame,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+): void => {
+  const eased = applyEasing(progress, 'ease-out-back');
+  out.position.copy(input.basePosition).multiplyScalar(1 - (1 - eased) * frame.intensity * frame.amplitude);
+  out.scale = Math.max(0, eased);
+  out.opacity = applyEasing(progress, 'ease-out');
+};
+
+const centerSpawn = (
+  progress: number,
+  withScale: boolean,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+): void => {
+  const eased = applyEasing(progress, 'ease-out');
+  out.position.copy(input.basePosition).multiplyScalar(eased);
+  out.scale = withScale ? eased : 1;
+  out.opacity = progress > 0 ? 1 : 0;
+};
+
+const scatterGather = (
+  progress: number,
+  frame: ParticleAnimationFrame,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+): void => {
+  // progress 1 means gathered on the arrangement, 0 means fully scattered
+  const eased = applyEasing(progress, 'ease-in-out');
+  const scatter = (1 - eased) * frame.amplitude * frame.radius;
+  const theta = input.seed * TWO_PI;
+  const phi = Math.acos(2 * seededRandom(input.index + 0.5) - 1);
+  out.position.copy(input.basePosition);
+  out.position.x += Math.sin(phi) * Math.cos(theta) * scatter;
+  out.position.y += Math.cos(phi) * scatter;
+  out.position.z += Math.sin(phi) * Math.sin(theta) * scatter;
+  out.scale = 1 - (1 - eased) * frame.intensity * 0.5;
+  out.opacity = 0.3 + eased * 0.7;
+};
+
+export const particleAnimations: Record<AnimationType, ParticleAnimationFn> = {
+  none: () => {},
+
+  'enter-fade-bounce': (frame, input, out) => {
+    fadeBounce(getEnterProgress(frame.time, getStaggerDelay(frame, input)), frame, input, out);
+  },
+
+  'enter-wave-emerge': (frame, input, out) => {
+    // Emerge bottom to top, the stagger follows the particle height
+    const delay = getNormalizedHeight(frame, input) * frame.phase * ENTER_STAGGER;
+    waveEmerge(getEnterProgress(frame.time, delay), frame, input, out);
+  },
+
+  'enter-center-spawn': (frame, input, out) => {
+    centerSpawn(getEnterProgress(frame.time, getStaggerDelay(frame, input)), true, input, out);
+  },
+
+  'enter-center-spawn-no-scale': (frame, input, out) => {
+    centerSpawn(getEnterProgress(frame.time, getStaggerDelay(frame, input)), false, input, out);
+  },
+
+  'continuous-pulse': (frame, input, out) => {
+    const time = frame.time + getPhaseOffset(frame, input);
+    out.scale = 1 + Math.sin(time * 3) * frame.intensity * 0.3 * frame.amplitude;
+  },
+
+  'continuous-float': (frame, input, out) => {
+    const time = frame.time + getPhaseOffset(frame, input);
+    out.position.y += Math.sin(time * 2) * frame.intensity * 0.2 * frame.amplitude * frame.radius;
+  },
+
+  'continuous-glow': (frame, input, out) => {
+    const time = frame.time + getPhaseOffset(frame, input);
+    out.opacity = Math.max(0.2, Math.min(1, 0.7 + Math.sin(time * 4) * frame.intensity));
+  },
+
+  'continuous-orbit': (frame, input, out) => {
+    const time = frame.time + getPhaseOffset(frame, input);
+    const angle = time * getDirectionSign(frame.direction, input.seed) * TWO_PI * 0.25;
+    const orbitRadius = 0.1 * frame.intensity * frame.amplitude * frame.radius;
+    out.position.x += Math.cos(angle) * orbitRadius;
+    out.position.z += Math.sin(angle) * orbitRadius;
+  },
+
+  'continuous-spin': (frame, input, out) => {
+    // Spin every particle around the vertical axis of the arrangement
+    const angle = frame.time * getDirectionSign(frame.direction, input.seed) * frame.intensity * frame.amplitude;
+    out.position.applyAxisAngle(_axis, angle);
+  },
+
+  'continuous-breathe': (frame, input, out) => {
+    const time = frame.time + getPhaseOffset(frame, input);
+    const breath = Math.sin(time * 2);
+    out.position.multiplyScalar(1 + breath * frame.intensity * 0.1 * frame.amplitude);
+    out.scale = 1 + breath * frame.intensity * 0.2;
+    out.opacity = Math.max(0.3, Math.min(1, 0.8 + breath * frame.intensity * 0.2));
+  },
+
+  'continuous-wave': (frame, input, out) => {
+    const radius = frame.radius > 0 ? frame.radius : 1;
+    const time = frame.time * getDirectionSign(frame.direction, input.seed);
+    const wave = Math.sin(time * 3 + (input.basePosition.y / radius) * 5 + getPhaseOffset(frame, input));
+    out.position.x += wave * frame.intensity * 0.1 * frame.amplitude * radius;
+  },
+
+  'continuous-ripple': (frame, input, out) => {
+    // Ripple travels from the top pole down to the bottom pole
+    const distance = 1 - getNormalizedHeight(frame, input);
+    const ripple = Math.sin(frame.time * 5 - distance * 10 + getPhaseOffset(frame, input));
+    out.position.multiplyScalar(1 + ripple * frame.intensity * 0.1 * frame.amplitude);
+  },
+
+  'loop-fade-bounce': (frame, input, out) => {
+    fadeBounce(getLoopProgress(frame.time, getStaggerDelay(frame, input)), frame, input, out);
+  },
+
+  'loop-center-spawn': (frame, input, out) => {
+    centerSpawn(getLoopProgress(frame.time, getStaggerDelay(frame, input)), true, input, out);
+  },
+
+  'loop-wave-emerge': (frame, input, out) => {
+    const delay = getNormalizedHeight(frame, input) * frame.phase * ENTER_STAGGER;
+    waveEmerge(getLoopProgress(frame.time, delay), frame, input, out);
+  },
+
+  'loop-scatter-gather': (frame, input, out) => {
+    scatterGather(getLoopProgress(frame.time, getStaggerDelay(frame, input)), frame, input, out);
+  },
+
+  'continuous-dna': (frame, input, out) => {
+    // Twist the arrangement around the vertical axis, proportional to height
+    const radius = frame.radius > 0 ? frame.radius : 1;
+    const twist = (input.basePosition.y / radius) * Math.PI * frame.amplitude;
+    const angle =
+      getDirectionSign(frame.direction, input.seed) *
+      (Math.sin(frame.time + getPhaseOffset(frame, input)) * twist * frame.intensity + frame.time * 0.5);
+    out.position.applyAxisAngle(_axis, angle);
+  },
+
+  'continuous-firefly': (frame, input, out) => {
+    // Wander with a sum of incommensurate sines so the motion never visibly repeats
+    const time = frame.time + input.seed * 100;
+    const wander = 0.08 * frame.intensity * frame.amplitude * frame.radius;
+    out.position.x += (Math.sin(time * 1.3) + Math.sin(time * 0.7 + 1.7)) * 0.5 * wander;
+    out.position.y += (Math.sin(time * 1.1 + 2.3) + Math.sin(time * 0.5)) * 0.5 * wander;
+    out.position.z += (Math.sin(time * 0.9 + 4.1) + Math.sin(time * 1.7)) * 0.5 * wander;
+    const flicker = Math.sin(time * 6) * Math.sin(time * 2.3);
+    out.opacity = Math.max(0.15, Math.min(1, 0.6 + flicker * frame.intensity * 1.3));
+  }
+};
+
+// Writes the animated sample for a particle, starting from its resting state
+export const sampleParticleAnimation = (
+  frame: ParticleAnimationFrame,
+  input: ParticleAnimationInput,
+  out: ParticleAnimationSample
+): ParticleAnimationSample => {
+  out.position.copy(input.basePosition);
+  out.scale = 1;
+  out.opacity = 1;
+  particleAnimations[frame.type](frame, input, out);
+  return out;
+};
+
+// Whether an animation type is still producing changes at the given time
+export const isAnimationActive = (frame: ParticleAnimationFrame): boolean => {
+  if (frame.type === 'none') return false;
+  if (isEnterAnimation(frame.type)) {
+    return frame.time <= ENTER_DURATION + frame.phase * ENTER_STAGGER;
+  }
+  return true;
+};
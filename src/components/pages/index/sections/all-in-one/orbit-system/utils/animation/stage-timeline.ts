@@ -0,0 +1,221 @@
+import { applyEasing, type EasingType } from './easing-functions';
+import type { ArrangementType, CameraPreset } from '../config';
+
+// Stages every timeline has besides its named keyframes
+export type SystemStage = 'idle' | 'completed' | 'returning';
+
+// Keyframe names are free form ('stage1', 'stage2', ...), the union keeps autocomplete for the system stages
+export type AnimationStage = SystemStage | (string & {});
+
+// Values driven by the timeline. Orbit radii are keyed by orbit id ('orbit1', 'orbit2', ...)
+export interface TimelineValues {
+  lensScale: number;
+  orbitRadii: Record<string, number>;
+}
+
+// Shape the lens particles morph into while a stage is active, e.g.
+// { arrangement: 'text', params: { text: 'Pedido' } } or { arrangement: 'svg-fill', params: { svgPath } }
+export interface StageMorph {
+  arrangement: ArrangementType; // any registered arrangement (@/utils/particle-arrangements)
+  params?: Record<string, number | string>;
+  duration?: number; // seconds, defaults to the timeline's transitionDuration
+}
+
+// Camera a stage moves to, e.g. { preset: 'isometric' } or { position: [2, 1, 6] }. A position
+// makes it a free camera, the target defaults to the configured one
+export interface StageCamera {
+  preset?: CameraPreset;
+  position?: [number, number, number];
+  target?: [number, number, number];
+  duration?: number; // seconds, defaults to the timeline's transitionDuration
+}
+
+export interface TimelineKeyframe extends TimelineValues {
+  name: string;
+  duration: number; // seconds
+  easing?: EasingType; // easing used to reach this keyframe's values
+  hideTexts?: Record<string, number[]>; // orbit id -> text indices that fade out when this stage starts
+  morph?: StageMorph; // stages without one show the configured arrangement
+  camera?: StageCamera; // stages without one use the configured camera
+}
+
+export interface StageTimeline {
+  keyframes: TimelineKeyframe[];
+  initial: TimelineValues; // idle and returning
+  final?: TimelineValues; // completed, defaults to the last keyframe
+  transitionDuration: number; // seconds to ease from one stage's values to the next
+  returnDelay: number; // seconds spent on 'completed' before returning
+  returnDuration: number; // seconds spent on 'returning' before looping
+  autoLoop: boolean;
+}
+
+export interface TimelinePosition {
+  stage: AnimationStage;
+  keyframeIndex: number; // -1 outside keyframes
+  stageElapsed: number;
+  loop: number;
+}
+
+export const DEFAULT_STAGE_TIMELINE: StageTimeline = {
+  keyframes: [
+    { name: 'stage1', duration: 3, lensScale: 0.7, orbitRadii: { orbit1: 3.6, orbit2: 2.2 } },
+    {
+      name: 'stage2',
+      duration: 3,
+      lensScale: 1.1,
+      orbitRadii: { orbit1: 3.2, orbit2: 1.8 },
+      hideTexts: { orbit2: [0] }
+    },
+    {
+      name: 'stage3',
+      duration: 3,
+      lensScale: 1.4,
+      orbitRadii: { orbit1: 2.5, orbit2: 1.3 },
+      hideTexts: { orbit2: [1] }
+    },
+    {
+      name: 'stage4',
+      duration: 3,
+      lensScale: 1.7,
+      orbitRadii: { orbit1: 1.6, orbit2: 1 },
+      hideTexts: { orbit1: [0] }
+    }
+  ],
+  initial: { lensScale: 0.7, orbitRadii: { orbit1: 3.6, orbit2: 2.2 } },
+  transitionDuration: 1,
+  returnDelay: 3,
+  returnDuration: 1.2,
+  autoLoop: true
+};
+
+export const getKeyframesDuration = (timeline: StageTimeline): number =>
+  timeline.keyframes.reduce((total, keyframe) => total + keyframe.duration, 0);
+
+export const getCycleDuration = (timeline: StageTimeline): number =>
+  getKeyframesDuration(timeline) + timeline.returnDelay + timeline.returnDuration;
+
+export const getFirstStage = (timeline: StageTimeline): AnimationStage =>
+  timeline.keyframes[0]?.name ?? 'idle';
+
+export const getLastStage = (timeline: StageTimeline): AnimationStage =>
+  timeline.keyframes[timeline.keyframes.length - 1]?.name ?? 'idle';
+
+// Where the timeline is after `elapsed` seconds
+export const getTimelinePosition = (timeline: StageTimeline, elapsed: number): TimelinePosition => {
+  const keyframesDuration = getKeyframesDuration(timeline);
+  const cycleDuration = getCycleDuration(timeline);
+  const lastIndex = timeline.keyframes.length - 1;
+
+  if (lastIndex < 0 || elapsed < 0) {
+    return { stage: 'idle', keyframeIndex: -1, stageElapsed: 0, loop: 0 };
+  }
+
+  // Without autoLoop the timeline locks on its last keyframe
+  if (!timeline.autoLoop && elapsed >= keyframesDuration) {
+    const lastStart = keyframesDuration - timeline.keyframes[lastIndex].duration;
+    return { stage: timeline.keyframes[lastIndex].name, keyframeIndex: lastIndex, stageElapsed: elapsed - lastStart, loop: 0 };
+  }
+
+  const loop = timeline.autoLoop && cycleDuration > 0 ? Math.floor(elapsed / cycleDuration) : 0;
+  const cycleElapsed = timeline.autoLoop && cycleDuration > 0 ? elapsed % cycleDuration : elapsed;
+
+  let stageStart = 0;
+  for (const [index, keyframe] of timeline.keyframes.entries()) {
+    if (cycleElapsed < stageStart + keyframe.duration) {
+      return { stage: keyframe.name, keyframeIndex: index, stageElapsed: cycleElapsed - stageStart, loop };
+    }
+    stageStart += keyframe.duration;
+  }
+
+  if (cycleElapsed < keyframesDuration + timeline.returnDelay) {
+    return { stage: 'completed', keyframeIndex: -1, stageElapsed: cycleElapsed - keyframesDuration, loop };
+  }
+
+  return {
+    stage: 'returning',
+    keyframeIndex: -1,
+    stageElapsed: cycleElapsed - keyframesDuration - timeline.returnDelay,
+    loop
+  };
+};
+
+// Whether `current` is `stage` or a later one in keyframe order. 'completed' is past every keyframe,
+// 'idle' and 'returning' are before all of them
+export const isStageReached = (timeline: StageTimeline, current: AnimationStage, stage: AnimationStage): boolean => {
+  const stageIndex = timeline.keyframes.findIndex((keyframe) => keyframe.name === stage);
+  if (stageIndex === -1) return current === stage;
+  if (current === 'completed') return true;
+  return timeline.keyframes.findIndex((keyframe) => keyframe.name === current) >= stageIndex;
+};
+
+// Target values of a stage
+export const getStageValues = (timeline: StageTimeline, stage: AnimationStage): TimelineValues => {
+  const keyframe = timeline.keyframes.find((item) => item.name === stage);
+  if (keyframe) return keyframe;
+
+  if (stage === 'completed') {
+    return timeline.final ?? timeline.keyframes[timeline.keyframes.length - 1] ?? timeline.initial;
+  }
+
+  return timeline.initial;
+};
+
+// Shape of a stage, 'completed' keeps the last keyframe's. Undefined means the configured arrangement
+export const getStageMorph = (timeline: StageTimeline, stage: AnimationStage): StageMorph | undefined => {
+  if (stage === 'completed') return timeline.keyframes[timeline.keyframes.length - 1]?.morph;
+  return timeline.keyframes.find((keyframe) => keyframe.name === stage)?.morph;
+};
+
+// Camera of a stage, 'completed' keeps the last keyframe's. Undefined means the configured camera
+export const getStageCamera = (timeline: StageTimeline, stage: AnimationStage): StageCamera | undefined => {
+  if (stage === 'completed') return timeline.keyframes[timeline.keyframes.length - 1]?.camera;
+  return timeline.keyframes.find((keyframe) => keyframe.name === stage)?.camera;
+};
+
+// Values of the stage that precedes `position`, used as the start of the easing
+const getPreviousValues = (timeline: StageTimeline, position: TimelinePosition): TimelineValues => {
+  if (position.keyframeIndex > 0) return timeline.keyframes[position.keyframeIndex - 1];
+  if (position.keyframeIndex === 0) return timeline.initial;
+  if (position.stage === 'completed') return getStageValues(timeline, getLastStage(timeline));
+  if (position.stage === 'returning') return getStageValues(timeline, 'completed');
+  return timeline.initial;
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// Eased values at `elapsed` seconds
+export const sampleTimeline = (timeline: StageTimeline, elapsed: number): TimelineValues & TimelinePosition => {
+  const position = getTimelinePosition(timeline, elapsed);
+  const target = getStageValues(timeline, position.stage);
+  const previous = getPreviousValues(timeline, position);
+
+  const isReturning = position.stage === 'returning';
+  const easeDuration = isReturning ? timeline.returnDuration : timeline.transitionDuration;
+  const easing = timeline.keyframes[position.keyframeIndex]?.easing ?? 'ease-in-out';
+  const progress = position.stage === 'idle' || easeDuration <= 0
+    ? 1
+    : applyEasing(position.stageElapsed / easeDuration, easing);
+
+  const orbitRadii: Record<string, number> = {};
+  for (const orbitId of Object.keys(target.orbitRadii)) {
+    const from = previous.orbitRadii[orbitId] ?? target.orbitRadii[orbitId];
+    orbitRadii[orbitId] = lerp(from, target.orbitRadii[orbitId], progress);
+  }
+
+  return {
+    ...position,
+    lensScale: lerp(previous.lensScale, target.lensScale, progress),
+    orbitRadii
+  };
+};
+
+// Text index -> stage where that text fades out, for one orbit
+export const getTextHideStages = (timeline: StageTimeline, orbitId: string): Record<number, AnimationStage> => {
+  const hideStages: Record<number, AnimationStage> = {};
+  for (const keyframe of timeline.keyframes) {
+    for (const textIndex of keyframe.hideTexts?.[orbitId] ?? []) {
+      hideStages[textIndex] = keyframe.name;
+    }
+  }
+  return hideStages;
+};
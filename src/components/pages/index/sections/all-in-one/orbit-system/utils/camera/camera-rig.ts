@@ -0,0 +1,249 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { applyEasing, type EasingType } from '../animation/easing-functions';
+import type { CameraPreset, ParticleSystemSettings } from '../config';
+
+export type CameraSettings = Pick<
+  ParticleSystemSettings,
+  'cameraType' | 'cameraPreset' | 'orbitControlsEnabled' | 'cameraPosition' | 'cameraTarget'
+>;
+
+export const CAMERA_KEYS: (keyof CameraSettings)[] = [
+  'cameraType',
+  'cameraPreset',
+  'orbitControlsEnabled',
+  'cameraPosition',
+  'cameraTarget'
+];
+
+export const pickCameraSettings = (settings: Partial<ParticleSystemSettings>): Partial<CameraSettings> =>
+  Object.fromEntries(
+    CAMERA_KEYS.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]])
+  ) as Partial<CameraSettings>;
+
+export type RigCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+// Where the camera sits, what it looks at and which way is up
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  up: THREE.Vector3;
+}
+
+// A preset or an explicit position, over the configured settings. A position makes it a free camera
+export interface CameraPlacement {
+  preset?: CameraPreset;
+  position?: [number, number, number];
+  target?: [number, number, number];
+}
+
+export interface CameraRigOptions {
+  aspect: number;
+  fov: number; // vertical field of view of the perspective camera, in degrees
+  distance: number; // from the target for the presets
+  settings: CameraSettings;
+  controlsElement: HTMLElement; // receives the orbit controls' pointer input
+  onChange?: () => void; // the orbit controls moved the camera
+}
+
+interface CameraTransition {
+  from: CameraPose;
+  to: CameraPose;
+  elapsed: number;
+  duration: number;
+  easing: EasingType;
+}
+
+// Directions from the target, scaled to the framing distance. 'free' uses cameraPosition
+const PRESET_DIRECTIONS: Record<Exclude<CameraPreset, 'free'>, [number, number, number]> = {
+  frontal: [0, 0, 1],
+  superior: [0, 1, 0],
+  lateral: [1, 0, 0],
+  isometric: [1, 1, 1]
+};
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+// Looking straight down, the default up would be parallel to the view direction
+const SUPERIOR_UP = new THREE.Vector3(0, 0, -1);
+
+// The scene camera built from the camera settings: perspective or orthographic, placed by a preset
+// or freely, with optional orbit controls. Moves between placements are eased over clock time
+// through update(), so stage keyframes and the tuning panel can both drive it. The orthographic
+// frustum shows what the perspective camera shows at the target, so switching types keeps the framing
+export class CameraRig {
+  private options: CameraRigOptions;
+  private settings: CameraSettings;
+  private camera: RigCamera;
+  private target = new THREE.Vector3();
+  private controls: OrbitControls | null = null;
+  private transition: CameraTransition | null = null;
+
+  constructor(options: CameraRigOptions) {
+    this.options = options;
+    this.settings = {
+      ...options.settings,
+      cameraPosition: [...options.settings.cameraPosition],
+      cameraTarget: [...options.settings.cameraTarget]
+    };
+
+    this.camera = this.createCamera();
+    this.applyPose(this.resolvePose());
+    this.setControlsEnabled(this.settings.orbitControlsEnabled);
+  }
+
+  private createCamera(): RigCamera {
+    const { aspect, fov, distance } = this.options;
+    if (this.settings.cameraType === 'orthographic') {
+      const halfHeight = distance * Math.tan((fov * Math.PI) / 360);
+      return new THREE.OrthographicCamera(-halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight, 0.1, 1000);
+    }
+    return new THREE.PerspectiveCamera(fov, aspect, 0.1, 1000);
+  }
+
+  private setControlsEnabled(enabled: boolean): void {
+    if (!enabled) {
+      this.controls?.removeEventListener('change', this.handleControlsChange);
+      this.controls?.dispose();
+      this.controls = null;
+      return;
+    }
+
+    if (!this.controls) {
+      this.controls = new OrbitControls(this.camera, this.options.controlsElement);
+      // The wheel keeps scrolling the page
+      this.controls.enableZoom = false;
+      this.controls.addEventListener('change', this.handleControlsChange);
+    }
+    this.controls.object = this.camera;
+    this.controls.target.copy(this.target);
+    this.controls.enabled = !this.transition;
+    this.controls.update();
+  }
+
+  private handleControlsChange = (): void => {
+    if (this.controls) this.target.copy(this.controls.target);
+    this.options.onChange?.();
+  };
+
+  // Pose of `placement` over the settings: an explicit position, else the preset's direction at
+  // the framing distance, looking at the target
+  public resolvePose(placement: CameraPlacement = {}): CameraPose {
+    const target = new THREE.Vector3(...(placement.target ?? this.settings.cameraTarget));
+    const preset = placement.position ? 'free' : placement.preset ?? this.settings.cameraPreset;
+
+    const position = preset === 'free'
+      ? new THREE.Vector3(...(placement.position ?? this.settings.cameraPosition))
+      : new THREE.Vector3(...PRESET_DIRECTIONS[preset]).normalize().multiplyScalar(this.options.distance).add(target);
+
+    return { position, target, up: (preset === 'superior' ? SUPERIOR_UP : WORLD_UP).clone() };
+  }
+
+  private getCurrentPose(): CameraPose {
+    return { position: this.camera.position.clone(), target: this.target.clone(), up: this.camera.up.clone() };
+  }
+
+  private applyPose(pose: CameraPose): void {
+    this.camera.position.copy(pose.position);
+    this.camera.up.copy(pose.up);
+    this.target.copy(pose.target);
+    this.camera.lookAt(this.target);
+    this.camera.updateMatrixWorld();
+    this.controls?.target.copy(this.target);
+  }
+
+  // Eases to `pose` over `duration` clock seconds, 0 jumps there. The controls wait until it arrives
+  public moveTo(pose: CameraPose, duration: number = 0, easing: EasingType = 'ease-in-out'): void {
+    if (duration <= 0) {
+      this.transition = null;
+      this.applyPose(pose);
+    } else {
+      this.transition = { from: this.getCurrentPose(), to: pose, elapsed: 0, duration, easing };
+    }
+    if (this.controls) this.controls.enabled = !this.transition;
+  }
+
+  // Advances a move in progress, then lets the controls settle. Called once per frame
+  public update(deltaTime: number): void {
+    if (this.transition) {
+      const { from, to, duration, easing } = this.transition;
+      this.transition.elapsed += deltaTime;
+      const progress = applyEasing(this.transition.elapsed / duration, easing);
+
+      this.applyPose({
+        position: from.position.clone().lerp(to.position, progress),
+        target: from.target.clone().lerp(to.target, progress),
+        up: from.up.clone().lerp(to.up, progress).normalize()
+      });
+
+      if (this.transition.elapsed >= duration) {
+        this.transition = null;
+        if (this.controls) this.controls.enabled = true;
+      }
+      return;
+    }
+
+    this.controls?.update(deltaTime);
+  }
+
+  public isMoving(): boolean {
+    return this.transition !== null;
+  }
+
+  // A changed type swaps the camera (read it again with getCamera), a changed placement eases
+  // there over `duration` clock seconds
+  public updateSettings(settings: Partial<CameraSettings>, duration: number = 0): void {
+    const previous = this.settings;
+    this.settings = { ...this.settings, ...settings };
+
+    if (this.settings.cameraType !== previous.cameraType) {
+      const pose = this.getCurrentPose();
+      this.camera = this.createCamera();
+      this.applyPose(pose);
+    }
+
+    if (this.settings.orbitControlsEnabled !== previous.orbitControlsEnabled || this.camera !== this.controls?.object) {
+      this.setControlsEnabled(this.settings.orbitControlsEnabled);
+    }
+
+    const isPlacementChanged = this.settings.cameraPreset !== previous.cameraPreset ||
+      this.settings.cameraPosition.some((value, index) => value !== previous.cameraPosition[index]) ||
+      this.settings.cameraTarget.some((value, index) => value !== previous.cameraTarget[index]);
+    if (isPlacementChanged) {
+      this.moveTo(this.resolvePose(), duration);
+    }
+  }
+
+  public getSettings(): CameraSettings {
+    return {
+      ...this.settings,
+      cameraPosition: [...this.settings.cameraPosition],
+      cameraTarget: [...this.settings.cameraTarget]
+    };
+  }
+
+  public setAspect(aspect: number): void {
+    this.options.aspect = aspect;
+
+    if (this.camera instanceof THREE.OrthographicCamera) {
+      const halfHeight = this.camera.top;
+      this.camera.left = -halfHeight * aspect;
+      this.camera.right = halfHeight * aspect;
+    } else {
+      this.camera.aspect = aspect;
+    }
+    this.camera.updateProjectionMatrix();
+  }
+
+  public getAspect(): number {
+    return this.options.aspect;
+  }
+
+  public getCamera(): RigCamera {
+    return this.camera;
+  }
+
+  public dispose(): void {
+    this.setControlsEnabled(false);
+    this.transition = null;
+  }
+}
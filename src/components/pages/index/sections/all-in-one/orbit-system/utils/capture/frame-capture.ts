@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import type { QualityTier } from '../performance/quality-governor';
+
+export interface FrameCaptureOptions {
+  width: number; // output pixels, independent of the on-page canvas size
+  height: number;
+  fps?: number; // fixed timestep is 1 / fps
+  startTime?: number; // seconds into the timeline, reached by stepping from 0 so the state matches playback
+  frameCount?: number; // defaults to one full timeline cycle
+  includeTexts?: boolean; // rasterize the HTML orbit texts into the frames
+  background?: string | null; // CSS color behind the layers, null keeps transparency
+  qualityTier?: QualityTier; // lens quality while capturing, defaults to 'ultra'
+}
+
+export interface CapturedFrame {
+  index: number;
+  time: number; // timeline seconds
+  blob: Blob; // PNG
+}
+
+// Screen-independent snapshot of one orbit text, positions are in world space
+export interface CaptureTextState {
+  element: HTMLElement;
+  position: THREE.Vector3;
+  opacity: number;
+  scale: number;
+}
+
+export const createCaptureTarget = (width: number, height: number): THREE.WebGLRenderTarget => {
+  const target = new THREE.WebGLRenderTarget(width, height, {
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    format: THREE.RGBAFormat,
+    type: THREE.UnsignedByteType,
+    samples: 4
+  });
+  // Match the sRGB output the renderer applies when drawing to the canvas
+  target.texture.colorSpace = THREE.SRGBColorSpace;
+  return target;
+};
+
+// Copy a render target into a 2D canvas, WebGL rows start at the bottom so they are flipped
+export const readRenderTarget = (
+  renderer: THREE.WebGLRenderer,
+  target: THREE.WebGLRenderTarget,
+  canvas: HTMLCanvasElement
+): void => {
+  const { width, height } = target;
+  const pixels = new Uint8Array(width * height * 4);
+  renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+
+  const image = new ImageData(width, height);
+  const rowSize = width * 4;
+  for (let y = 0; y < height; y++) {
+    const sourceStart = (height - 1 - y) * rowSize;
+    image.data.set(pixels.subarray(sourceStart, sourceStart + rowSize), y * rowSize);
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// SVG images cannot load external resources, so @font-face sources are inlined as data URLs
+let embeddedFontCss: Promise<string> | null = null;
+
+const getEmbeddedFontCss = (): Promise<string> => {
+  if (embeddedFontCss) return embeddedFontCss;
+
+  embeddedFontCss = (async () => {
+    const rules: string[] = [];
+    for (const sheet of Array.from(document.styleSheets)) {
+      let cssRules: CSSRuleList;
+      try {
+        cssRules = sheet.cssRules;
+      } catch {
+        continue; // Cross-origin sheets cannot be read
+      }
+
+      for (const rule of Array.from(cssRules)) {
+        if (!(rule instanceof CSSFontFaceRule)) continue;
+
+        let cssText = rule.cssText;
+        const baseUrl = sheet.href ?? location.href;
+        for (const [match, url] of cssText.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+          if (url.startsWith('data:')) continue;
+          try {
+            const response = await fetch(new URL(url, baseUrl));
+            cssText = cssText.replace(match, `url("${await blobToDataUrl(await response.blob())}")`);
+          } catch (error) {
+            console.warn(`Could not embed font ${url}:`, error);
+          }
+        }
+        rules.push(cssText);
+      }
+    }
+    return rules.join('\n');
+  })();
+
+  return embeddedFontCss;
+};
+
+// Deep clone with every computed style inlined, so the clone renders the same outside the page
+const cloneWithComputedStyles = (source: Element): Element => {
+  const clone = source.cloneNode(false) as Element;
+
+  if (source instanceof HTMLElement || source instanceof SVGElement) {
+    const computed = getComputedStyle(source);
+    const style = (clone as HTMLElement | SVGElement).style;
+    for (const property of Array.from(computed)) {
+      style.setProperty(property, computed.getPropertyValue(property), computed.getPropertyPriority(property));
+    }
+  }
+
+  for (const child of Array.from(source.childNodes)) {
+    clone.appendChild(child instanceof Element ? cloneWithComputedStyles(child) : child.cloneNode(true));
+  }
+  return clone;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not rasterize element'));
+    image.src = src;
+  });
+
+// Rasterize an element at its layout size times `pixelScale` through an SVG foreignObject. The
+// element's own position, transform and opacity are dropped, the caller places the result
+export const rasterizeElement = async (element: HTMLElement, pixelScale: number): Promise<HTMLImageElement> => {
+  const width = element.offsetWidth;
+  const height = element.offsetHeight;
+
+  const clone = cloneWithComputedStyles(element) as HTMLElement;
+  clone.style.position = 'static';
+  clone.style.left = 'auto';
+  clone.style.top = 'auto';
+  clone.style.margin = '0';
+  clone.style.opacity = '1';
+  clone.style.transform = `scale(${pixelScale})`;
+  clone.style.transformOrigin = '0 0';
+  clone.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+
+  const outputWidth = Math.ceil(width * pixelScale);
+  const outputHeight = Math.ceil(height * pixelScale);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${outputWidth}" height="${outputHeight}">` +
+    `<style>${await getEmbeddedFontCss()}</style>` +
+    `<foreignObject width="100%" height="100%">${new XMLSerializer().serializeToString(clone)}</foreignObject>` +
+    '</svg>';
+
+  return loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+};
@@ -1,38 +1,45 @@
-// Types for particle system configuration
-export type ArrangementType =
-  | 'fibonacci'
-  | 'spherical-lines'
-  | 'spherical-rings'
-  | 'spherical-spiral';
-
-export type CameraType = 'perspective' | 'orthographic';
-
-export type CameraPreset = 'frontal' | 'superior' | 'lateral' | 'isometric' | 'free';
-
-export type AnimationType =
-  | 'none'
-  | 'enter-fade-bounce'
-  | 'enter-wave-emerge'
-  | 'enter-center-spawn'
-  | 'enter-center-spawn-no-scale'
-  | 'continuous-pulse'
-  | 'continuous-float'
-  | 'continuous-glow'
-  | 'continuous-orbit'
-  | 'continuous-spin'
-  | 'continuous-breathe'
-  | 'continuous-wave'
-  | 'continuous-ripple'
-  | 'loop-fade-bounce'
-  | 'loop-center-spawn'
-  | 'loop-wave-emerge'
-  | 'loop-scatter-gather'
-  | 'continuous-dna'
-  | 'continuous-firefly';
-
-export type AnimationDirection = 'clockwise' | 'counter-clockwise' | 'random';
-
-export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+import type { ArrangementType } from '@/utils/particle-arrangements/geometry-positions';
+
+// Types for particle system configuration. The value lists are kept at runtime so stored and
+// shared settings can be validated against them
+
+// Arrangements come from the registry, see registerArrangement (@/utils/particle-arrangements)
+export type { ArrangementType };
+
+export const CAMERA_TYPES = ['perspective', 'orthographic'] as const;
+export type CameraType = (typeof CAMERA_TYPES)[number];
+
+export const CAMERA_PRESETS = ['frontal', 'superior', 'lateral', 'isometric', 'free'] as const;
+export type CameraPreset = (typeof CAMERA_PRESETS)[number];
+
+export const ANIMATION_TYPES = [
+  'none',
+  'enter-fade-bounce',
+  'enter-wave-emerge',
+  'enter-center-spawn',
+  'enter-center-spawn-no-scale',
+  'continuous-pulse',
+  'continuous-float',
+  'continuous-glow',
+  'continuous-orbit',
+  'continuous-spin',
+  'continuous-breathe',
+  'continuous-wave',
+  'continuous-ripple',
+  'loop-fade-bounce',
+  'loop-center-spawn',
+  'loop-wave-emerge',
+  'loop-scatter-gather',
+  'continuous-dna',
+  'continuous-firefly',
+] as const;
+export type AnimationType = (typeof ANIMATION_TYPES)[number];
+
+export const ANIMATION_DIRECTIONS = ['clockwise', 'counter-clockwise', 'random'] as const;
+export type AnimationDirection = (typeof ANIMATION_DIRECTIONS)[number];
+
+export const TRANSITION_EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const;
+export type TransitionEasing = (typeof TRANSITION_EASINGS)[number];
 
 // Main configuration interface
 export interface ParticleSystemSettings {
@@ -45,6 +52,7 @@ export interface ParticleSystemSettings {
   maxParticlesPerRing: number;
   ringsRadius: number;
   spiralTurns: number;
+  arrangementParams: Record<string, number | string>; // extra params of registered arrangements, by param name
   radius: number;
   particleSize: number;
   particleColor: string;
@@ -140,6 +148,7 @@ export const DEFAULT_SETTINGS: ParticleSystemSettings = {
   maxParticlesPerRing: 8,
   ringsRadius: 1,
   spiralTurns: 5,
+  arrangementParams: {},
   radius: 1,
   particleSize: 0.06,
   particleColor: '#2E15FE',
@@ -255,30 +264,3 @@ export const PRESET_CONFIGS = {
     spiralTurns: 8,
   }
 };
-
-// Utility functions for configuration management
-export class ParticleConfigManager {
-  private static STORAGE_KEY = 'particleSystemSettings';
-
-  static save(settings: ParticleSystemSettings): void {
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
-  }
-
-  static load(): ParticleSystemSettings | null {
-    const saved = localStorage.getItem(this.STORAGE_KEY);
-    return saved ? JSON.parse(saved) : null;
-  }
-
-  static loadOrDefault(): ParticleSystemSettings {
-    return this.load() || DEFAULT_SETTINGS;
-  }
-
-  static reset(): ParticleSystemSettings {
-    localStorage.removeItem(this.STORAGE_KEY);
-    return DEFAULT_SETTINGS;
-  }
-
-  static applyPreset(presetName: keyof typeof PRESET_CONFIGS): ParticleSystemSettings {
-    return { ...PRESET_CONFIGS[presetName] };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,63 @@
+export type EventListener<Payload> = (payload: Payload) => void;
+
+// Minimal emitter keyed by an event map, e.g. { 'stage-enter': { stage: AnimationStage } }
+export class TypedEventEmitter<EventMap extends object> {
+  // Keyed per event, so each set only holds listeners of that event's payload
+  private listeners: { [K in keyof EventMap]?: Set<EventListener<EventMap[K]>> } = {};
+  // once() wrappers to the listeners they call, so off() with the original removes them too
+  private readonly onceListeners = new WeakMap<EventListener<never>, EventListener<never>>();
+
+  // Returns a function that removes the listener
+  public on<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): () => void {
+    let listeners = this.listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[type] = listeners;
+    }
+    listeners.add(listener);
+
+    // Only this registration, off() also matches once() wrappers of the same function
+    return () => {
+      this.listeners[type]?.delete(listener);
+    };
+  }
+
+  public once<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): () => void {
+    const wrapper: EventListener<EventMap[K]> = (payload) => {
+      unsubscribe();
+      listener(payload);
+    };
+    this.onceListeners.set(wrapper, listener);
+    const unsubscribe = this.on(type, wrapper);
+    return unsubscribe;
+  }
+
+  public off<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+
+    for (const candidate of listeners) {
+      if (candidate === listener || this.onceListeners.get(candidate) === listener) {
+        listeners.delete(candidate);
+      }
+    }
+  }
+
+  public emit<K extends keyof EventMap>(type: K, payload: EventMap[K]): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(type)}" listener:`, error);
+      }
+    }
+  }
+
+  public removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
@@ -3,24 +3,19 @@ import { Group } from 'three';
 import { Lens } from './lens';
 import { ParticleSystem } from './particle-system';
 import type { ParticleSystemSettings } from './config';
-
-export type AnimationStage = 'idle' | 'stage1' | 'stage2' | 'stage3' | 'stage4' | 'completed' | 'returning';
+import {
+  DEFAULT_STAGE_TIMELINE,
+  getFirstStage,
+  getStageMorph,
+  getStageValues,
+  sampleTimeline,
+  type AnimationStage,
+  type StageTimeline
+} from './animation/stage-timeline';
 
 export interface LensParticleSystemOptions {
   // Animation controls
-  stage1Duration?: number;
-  stage2Duration?: number;
-  stage3Duration?: number;
-  stage4Duration?: number;
-  stage1Scale?: number;
-  stage2Scale?: number;
-  stage3Scale?: number;
-  stage4Scale?: number;
-  finalScale?: number;
-  initialScale?: number;
-  returnDelay?: number;
-  returnDuration?: number;
-  autoLoop?: boolean;
+  timeline?: StageTimeline;
 
 
   // Lens cursor properties
@@ -43,6 +38,11 @@ export interface LensParticleSystemOptions {
   lensCursorBackground?: string;
   lensCursorBackgroundScale?: number;
 
+  // Pointer following, see setPointerTarget()
+  lensCursorFollowPointer?: boolean;
+  lensCursorDamping?: number; // share of the remaining distance covered per 60 fps frame, 0..1
+  lensCursorBounds?: { x: number; y: number }; // furthest the lens center goes from the origin, world units
+
   // Particle system settings
   particleSettings: ParticleSystemSettings;
 
@@ -79,7 +79,8 @@ export class LensParticleSystem {
 
   // Animation state
   private currentStage: AnimationStage = 'idle';
-  private stageStartTime: number = 0;
+  private localElapsed: number = 0;
+  private scaleMultiplier: number = 1;
   private targetScale: number;
   private currentScale: number;
   private targetParticleScale: number;
@@ -93,8 +94,10 @@ export class LensParticleSystem {
   // Pulse state
   private pulseTime: number = 0;
 
-  // Timing
-  private returnTimeout: number | null = null;
+  // Pointer following state, in world units on the z = 0 plane
+  private pointerTarget: THREE.Vector2 | null = null;
+  private lensOffset = new THREE.Vector2();
+  private _targetOffset = new THREE.Vector2();
 
   constructor(options: LensParticleSystemOptions) {
     // Detect if mobile internally
@@ -104,20 +107,8 @@ export class LensParticleSystem {
     const responsiveScale = options.responsiveScale ?? 1.0;
 
     this.options = {
-      // Animation defaults with longer durations for smoother experience
-      stage1Duration: 3,
-      stage2Duration: 3,
-      stage3Duration: 3,
-      stage4Duration: 3,
-      stage1Scale: 0.5,
-      stage2Scale: 0.8,
-      stage3Scale: 1.1,
-      stage4Scale: 1.4,
-      finalScale: 1.6,
-      initialScale: 0.5,
-      returnDelay: 3000,
-      returnDuration: 1.2,
-      autoLoop: true,
+      // Animation defaults
+      timeline: DEFAULT_STAGE_TIMELINE,
 
 
       // Lens defaults
@@ -138,6 +129,9 @@ export class LensParticleSystem {
       lensCursorResolution: 1024,
       lensCursorBacksideResolution: 1024,
       lensCursorBackground: '#ffffff',
+      lensCursorFollowPointer: false,
+      lensCursorDamping: 0.15,
+      lensCursorBounds: { x: 2.5, y: 1.5 },
 
       // Pulse defaults with gentler breathing effect
       pulseEnabled: true, // Disabled by default to focus on stage transitions
@@ -159,12 +153,7 @@ export class LensParticleSystem {
 
     // Apply responsiveScale to relevant values only if mobile
     if (isMobile) {
-      this.options.stage1Scale *= responsiveScale;
-      this.options.stage2Scale *= responsiveScale;
-      this.options.stage3Scale *= responsiveScale;
-      this.options.stage4Scale *= responsiveScale;
-      this.options.finalScale *= responsiveScale;
-      this.options.initialScale *= responsiveScale;
+      this.scaleMultiplier = responsiveScale;
       this.options.lensCursorSize *= responsiveScale;
 
       // Apply responsiveScale to particle settings particleSize
@@ -184,15 +173,16 @@ export class LensParticleSystem {
       };
     }
 
-    this.targetScale = this.options.initialScale;
-    this.currentScale = this.options.initialScale;
-    this.targetParticleScale = this.options.initialScale;
-    this.currentParticleScale = this.options.initialScale;
+    const initialScale = this.getInitialScale();
+    this.targetScale = initialScale;
+    this.currentScale = initialScale;
+    this.targetParticleScale = initialScale;
+    this.currentParticleScale = initialScale;
     this.isUsingGlobalTiming = this.options.useGlobalTiming;
 
     // Create group
     this.group = new Group();
-    this.group.scale.setScalar(this.options.initialScale);
+    this.group.scale.setScalar(initialScale);
 
     // Create lens cursor
     this.lens = new Lens({
@@ -228,13 +218,15 @@ export class LensParticleSystem {
 
   }
 
+  private getInitialScale(): number {
+    return this.options.timeline.initial.lensScale * this.scaleMultiplier;
+  }
+
   public startAnimation(): void {
     if (this.currentStage === 'idle') {
       this.isAnimating = true;
-      this.currentStage = 'stage1';
-      this.stageStartTime = Date.now();
-      this.targetScale = this.options.stage1Scale;
-      this.options.onStageChange?.('stage1');
+      this.localElapsed = 0;
+      this.applyTimeline(0);
     }
   }
 
@@ -245,16 +237,11 @@ export class LensParticleSystem {
 
   private resetAnimation(): void {
     this.currentStage = 'idle';
-    this.targetScale = this.options.initialScale;
-    this.targetParticleScale = this.options.initialScale;
+    this.localElapsed = 0;
+    this.targetScale = this.getInitialScale();
+    this.targetParticleScale = this.getInitialScale();
     this.loopCount = 0;
 
-    // Clear timeout if exists
-    if (this.returnTimeout) {
-      window.clearTimeout(this.returnTimeout);
-      this.returnTimeout = null;
-    }
-
     this.options.onReset?.();
   }
 
@@ -262,49 +249,49 @@ export class LensParticleSystem {
     return a + (b - a) * t;
   }
 
-  private updateWithGlobalTiming(deltaTime: number, globalElapsed: number, globalStage: AnimationStage): void {
-    // Handle stage changes based on global timing
-    if (globalStage !== this.currentStage) {
-      this.currentStage = globalStage;
-      this.options.onStageChange?.(globalStage);
-
-      // Set target scale based on global stage
-      switch (globalStage) {
-        case 'stage1':
-          this.targetScale = this.options.stage1Scale;
-          this.targetParticleScale = this.options.stage1Scale;
-          break;
-        case 'stage2':
-          this.targetScale = this.options.stage2Scale;
-          this.targetParticleScale = this.options.stage2Scale;
-          break;
-        case 'stage3':
-          this.targetScale = this.options.stage3Scale;
-          this.targetParticleScale = this.options.stage3Scale;
-          break;
-        case 'stage4':
-          this.targetScale = this.options.stage4Scale;
-          this.targetParticleScale = this.options.stage4Scale;
-          break;
-        case 'completed':
-          this.targetScale = this.options.finalScale;
-          this.targetParticleScale = this.options.finalScale;
-          this.options.onAnimationComplete?.();
-          break;
-        case 'returning':
-          this.targetScale = this.options.initialScale;
-          this.targetParticleScale = this.options.initialScale;
-          break;
-        case 'idle':
-          this.targetScale = this.options.initialScale;
-          this.targetParticleScale = this.options.initialScale;
-          break;
+  // Sample the timeline and notify stage changes
+  private applyTimeline(elapsed: number, stageOverride?: AnimationStage): void {
+    const sample = sampleTimeline(this.options.timeline, elapsed);
+    const stage = stageOverride ?? sample.stage;
+
+    if (stage !== this.currentStage) {
+      const previousStage = this.currentStage;
+      this.currentStage = stage;
+      this.applyStageMorph(stage);
+      this.options.onStageChange?.(stage);
+
+      if (stage === 'completed') {
+        this.options.onAnimationComplete?.();
+      }
+
+      // Track loop count when the timeline restarts
+      if (stage === getFirstStage(this.options.timeline) && previousStage === 'returning') {
+        this.loopCount += 1;
       }
     }
 
+    const scale = stage === 'idle'
+      ? this.getInitialScale()
+      : sample.lensScale * this.scaleMultiplier;
+    this.targetScale = scale;
+    this.targetParticleScale = scale;
+  }
+
+  // Morph the particles into the stage's shape, or back to the configured arrangement
+  private applyStageMorph(stage: AnimationStage, snap: boolean = false): void {
+    const { timeline } = this.options;
+    const morph = getStageMorph(timeline, stage);
+    const defaultDuration = stage === 'returning' ? timeline.returnDuration : timeline.transitionDuration;
+    const duration = snap ? 0 : morph?.duration ?? defaultDuration;
+
+    this.particleSystem.morphTo(morph?.arrangement ?? null, morph?.params, duration);
+  }
+
+  private updateScales(deltaTime: number): void {
     // Calculate pulse multiplier with smoother breathing effect
     let pulseMultiplier = 1;
     if (this.options.pulseEnabled) {
+      // Use smooth sine wave instead of absolute sine for natural breathing
       const pulseValue = (Math.sin(this.pulseTime * this.options.pulseSpeed * Math.PI * 2) + 1) / 2;
       pulseMultiplier = this.options.pulseMinScale + (this.options.pulseMaxScale - this.options.pulseMinScale) * pulseValue;
       this.pulseTime += deltaTime;
@@ -321,116 +308,79 @@ export class LensParticleSystem {
     this.currentParticleScale = this.lerp(this.currentParticleScale, this.targetParticleScale, smoothingFactor);
     this.particleSystem.getGroup().scale.setScalar(this.currentParticleScale);
 
+    this.followPointer(deltaTime);
+
     // Update lens cursor and particle system
     this.lens.update(deltaTime);
     this.particleSystem.update(deltaTime);
   }
 
-
-  public update(deltaTime: number, globalElapsed?: number, globalStage?: AnimationStage): void {
-    if (this.isUsingGlobalTiming && globalElapsed !== undefined && globalStage !== undefined) {
-      this.updateWithGlobalTiming(deltaTime, globalElapsed, globalStage);
-      return;
+  // Glide toward the pointer, clamped to the bounds, or back to the center without one
+  private followPointer(deltaTime: number): void {
+    const { lensCursorFollowPointer, lensCursorDamping, lensCursorBounds } = this.options;
+    this._targetOffset.set(0, 0);
+    if (lensCursorFollowPointer && this.pointerTarget) {
+      this._targetOffset.set(
+        THREE.MathUtils.clamp(this.pointerTarget.x, -lensCursorBounds.x, lensCursorBounds.x),
+        THREE.MathUtils.clamp(this.pointerTarget.y, -lensCursorBounds.y, lensCursorBounds.y)
+      );
     }
 
-    if (!this.isAnimating) return;
-
-    const now = Date.now();
-    const elapsed = (now - this.stageStartTime) / 1000;
+    if (this.lensOffset.equals(this._targetOffset)) return;
 
-    // Calculate pulse multiplier with smoother breathing effect
-    let pulseMultiplier = 1;
-    if (this.options.pulseEnabled) {
-      // Use smooth sine wave instead of absolute sine for natural breathing
-      const pulseValue = (Math.sin(this.pulseTime * this.options.pulseSpeed * Math.PI * 2) + 1) / 2;
-      pulseMultiplier = this.options.pulseMinScale + (this.options.pulseMaxScale - this.options.pulseMinScale) * pulseValue;
-      this.pulseTime += deltaTime;
+    const damping = THREE.MathUtils.clamp(lensCursorDamping, 0, 1);
+    const follow = 1 - Math.pow(1 - damping, deltaTime * 60);
+    this.lensOffset.lerp(this._targetOffset, follow);
+    if (this.lensOffset.distanceToSquared(this._targetOffset) < 1e-8) {
+      this.lensOffset.copy(this._targetOffset);
     }
+    this.applyLensOffset();
+  }
 
-    const finalScale = this.targetScale * pulseMultiplier;
+  // The particles move with the lens so they stay inside it
+  private applyLensOffset(): void {
+    const { x, y } = this.lensOffset;
+    this.group.position.set(x, y, 0);
+    this.particleSystem.getGroup().position.set(x, y, 0);
+    this.lens.setOffset(x, y);
+  }
 
-    // Smooth scale interpolation with configurable easing
-    const smoothingFactor = 1 - Math.exp(-deltaTime * this.options.smoothingFactor);
-    this.currentScale = this.lerp(this.currentScale, finalScale, smoothingFactor);
-    this.group.scale.setScalar(this.currentScale);
+  public update(deltaTime: number, globalElapsed?: number, globalStage?: AnimationStage): void {
+    if (this.isUsingGlobalTiming && globalElapsed !== undefined && globalStage !== undefined) {
+      this.applyTimeline(globalElapsed, globalStage);
+      this.updateScales(deltaTime);
+      return;
+    }
 
-    // Apply particle scale
-    this.currentParticleScale = this.lerp(this.currentParticleScale, this.targetParticleScale, smoothingFactor);
-    this.particleSystem.getGroup().scale.setScalar(this.currentParticleScale);
+    if (!this.isAnimating) return;
 
-    // Update lens cursor
-    this.lens.update(deltaTime);
+    this.localElapsed += deltaTime;
+    this.applyTimeline(this.localElapsed);
+    this.updateScales(deltaTime);
+  }
 
-    // Update particle system
-    this.particleSystem.update(deltaTime);
+  // Snap to a stage's layout without easing or pulse, used for reduced motion
+  public setStaticFrame(stage: AnimationStage): void {
+    const scale = getStageValues(this.options.timeline, stage).lensScale * this.scaleMultiplier;
+
+    this.currentStage = stage;
+    this.applyStageMorph(stage, true);
+    this.targetScale = scale;
+    this.targetParticleScale = scale;
+    this.currentScale = scale;
+    this.currentParticleScale = scale;
+    this.group.scale.setScalar(scale);
+    this.particleSystem.getGroup().scale.setScalar(scale);
+    this.lensOffset.set(0, 0);
+    this.applyLensOffset();
+
+    this.lens.update(0);
+    this.particleSystem.update(0);
+  }
 
-    // Stage progression logic
-    switch (this.currentStage) {
-      case 'stage1':
-        if (elapsed >= this.options.stage1Duration) {
-          this.currentStage = 'stage2';
-          this.stageStartTime = now;
-          this.targetScale = this.options.stage2Scale;
-          this.targetParticleScale = this.options.stage2Scale;
-          this.options.onStageChange?.('stage2');
-        }
-        break;
-
-      case 'stage2':
-        if (elapsed >= this.options.stage2Duration) {
-          this.currentStage = 'stage3';
-          this.stageStartTime = now;
-          this.targetScale = this.options.stage3Scale;
-          this.targetParticleScale = this.options.stage3Scale;
-          this.options.onStageChange?.('stage3');
-        }
-        break;
-
-      case 'stage3':
-        if (elapsed >= this.options.stage3Duration) {
-          this.currentStage = 'stage4';
-          this.stageStartTime = now;
-          this.targetScale = this.options.stage4Scale;
-          this.targetParticleScale = this.options.stage4Scale;
-          this.options.onStageChange?.('stage4');
-        }
-        break;
-
-      case 'stage4':
-        if (elapsed >= this.options.stage4Duration) {
-          this.currentStage = 'completed';
-          this.targetScale = this.options.finalScale;
-          this.targetParticleScale = this.options.finalScale;
-          this.options.onStageChange?.('completed');
-          this.options.onAnimationComplete?.();
-
-          if (this.options.autoLoop) {
-            // Transition to returning stage after delay
-            this.returnTimeout = window.setTimeout(() => {
-              if (this.isAnimating) {
-                this.currentStage = 'returning';
-                this.stageStartTime = Date.now();
-                this.targetScale = this.options.initialScale;
-                this.targetParticleScale = this.options.initialScale;
-                this.options.onStageChange?.('returning');
-              }
-            }, this.options.returnDelay);
-          }
-        }
-        break;
-
-      case 'returning':
-        if (elapsed >= this.options.returnDuration) {
-          // Start new loop
-          this.currentStage = 'stage1';
-          this.stageStartTime = Date.now();
-          this.targetScale = this.options.stage1Scale;
-          this.targetParticleScale = this.options.stage1Scale;
-          this.loopCount += 1;
-          this.options.onStageChange?.('stage1');
-        }
-        break;
-    }
+  // Let the lens refract another scene (e.g. the orbits) when both share a renderer
+  public setTransmissionUnderlay(scene: THREE.Scene | null): void {
+    this.lens.setUnderlay(scene);
   }
 
   public render(renderer: THREE.WebGLRenderer, camera: THREE.Camera, scene: THREE.Scene): void {
@@ -438,6 +388,27 @@ export class LensParticleSystem {
     this.lens.render(renderer, camera, scene);
   }
 
+  // Pointer position on the z = 0 plane in world units, the lens follows it when
+  // lensCursorFollowPointer is on
+  public setPointerTarget(x: number, y: number): void {
+    this.pointerTarget ??= new THREE.Vector2();
+    this.pointerTarget.set(x, y);
+  }
+
+  // The pointer left, the lens glides back to the center
+  public clearPointerTarget(): void {
+    this.pointerTarget = null;
+  }
+
+  // Lens center and radius in world units, for effects that follow the lens outside WebGL
+  public getLensCircle(): { x: number; y: number; radius: number } {
+    return {
+      x: this.lensOffset.x,
+      y: this.lensOffset.y,
+      radius: this.options.lensCursorSize * this.currentScale
+    };
+  }
+
   public getGroup(): Group {
     return this.group;
   }
@@ -466,25 +437,52 @@ export class LensParticleSystem {
     return this.lens;
   }
 
+  public getTimeline(): StageTimeline {
+    return this.options.timeline;
+  }
+
+  public getParticleSystem(): ParticleSystem {
+    return this.particleSystem;
+  }
+
+  public getOptions(): Readonly<LensParticleSystemOptions> {
+    return { ...this.options };
+  }
+
   public initializeForGlobalTiming(): void {
+    const initialScale = this.getInitialScale();
     this.isUsingGlobalTiming = true;
     this.isAnimating = true; // Always active when using global timing
     this.currentStage = 'idle';
-    this.targetScale = this.options.initialScale;
-    this.currentScale = this.options.initialScale;
-    this.targetParticleScale = this.options.initialScale;
-    this.currentParticleScale = this.options.initialScale;
+    this.targetScale = initialScale;
+    this.currentScale = initialScale;
+    this.targetParticleScale = initialScale;
+    this.currentParticleScale = initialScale;
+  }
+
+  // Back to the first frame, including pulse, rotation and particle animations, so fixed-step
+  // replays are deterministic
+  public resetToStart(): void {
+    this.initializeForGlobalTiming();
+    this.pulseTime = 0;
+    this.lensOffset.set(0, 0);
+    this.applyLensOffset();
+    this.group.scale.setScalar(this.currentScale);
+    this.particleSystem.getGroup().rotation.set(0, 0, 0);
+    this.particleSystem.getGroup().scale.setScalar(this.currentParticleScale);
+    this.particleSystem.morphTo(null, {}, 0);
+    this.particleSystem.restartAnimation();
   }
 
-  public updateOptions(newOptions: Partial<LensParticleSystem>): void {
+  public updateOptions(newOptions: Partial<LensParticleSystemOptions>): void {
     this.options = { ...this.options, ...newOptions };
 
-    // Update lens cursor options
+    // Update lens cursor options, lensCursorBacksideResolution -> backsideResolution
     const lensOptions: any = {};
     Object.keys(newOptions).forEach(key => {
       if (key.startsWith('lensCursor')) {
-        const lensKey = key.replace('lensCursor', '').toLowerCase();
-        lensOptions[lensKey] = (newOptions as any)[key];
+        const lensKey = key.replace('lensCursor', '');
+        lensOptions[lensKey.charAt(0).toLowerCase() + lensKey.slice(1)] = (newOptions as any)[key];
       }
     });
 
@@ -496,12 +494,6 @@ export class LensParticleSystem {
   }
 
   public dispose(): void {
-    // Clear timeout if exists
-    if (this.returnTimeout) {
-      window.clearTimeout(this.returnTimeout);
-      this.returnTimeout = null;
-    }
-
     // Dispose components
     this.lens.dispose();
     this.particleSystem.dispose();
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { MeshTransmissionMaterial } from './materials/mesh-transmission-material';
 import { DiscardMaterial } from './materials/discard-material';
+import { isMobileDevice } from './performance/device';
 
 export interface LensOptions {
   size?: number;
@@ -46,9 +47,12 @@ export class Lens {
   private childObjects: THREE.Object3D[] = [];
   private isMobile: boolean;
 
+  // Scene drawn into the transmission buffer behind the lens content, so the lens refracts it too
+  private underlayScene: THREE.Scene | null = null;
+
   constructor(options: LensOptions = {}) {
     // Detectar se é dispositivo móvel
-    this.isMobile = this.detectMobile();
+    this.isMobile = isMobileDevice();
     
     // Valores otimizados para mobile
     const mobileSamples = 2;
@@ -204,6 +208,26 @@ export class Lens {
     }
   }
 
+  public setUnderlay(scene: THREE.Scene | null): void {
+    this.underlayScene = scene;
+  }
+
+  // Capture the underlay (if any) and the lens scene into the bound render target
+  private renderBuffer(renderer: THREE.WebGLRenderer, camera: THREE.Camera): void {
+    renderer.clear();
+
+    if (!this.underlayScene) {
+      renderer.render(this.lensScene, camera);
+      return;
+    }
+
+    const oldAutoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    renderer.render(this.underlayScene, camera);
+    renderer.render(this.lensScene, camera);
+    renderer.autoClear = oldAutoClear;
+  }
+
   public update(deltaTime: number): void {
     if (!this.options.enabled) return;
 
@@ -217,9 +241,11 @@ export class Lens {
       return;
     }
 
-    // Store original state
+    // Store original state, the output target is null on screen or an offscreen target during capture
+    const outputTarget = renderer.getRenderTarget();
     this.oldBackground = mainScene.background;
     this.oldToneMapping = renderer.toneMapping;
+    const oldAutoClear = renderer.autoClear;
     const oldClearColor = renderer.getClearColor(new THREE.Color());
     const oldClearAlpha = renderer.getClearAlpha();
 
@@ -239,8 +265,7 @@ export class Lens {
         renderer.setClearColor(backgroundTexture, 1);
       }
       renderer.setRenderTarget(this.renderTargetBack);
-      renderer.clear();
-      renderer.render(this.lensScene, camera);
+      this.renderBuffer(renderer, camera);
 
       // Update material for backside rendering
       this.transmissionMaterial.setBuffer(this.renderTargetBack.texture);
@@ -255,8 +280,7 @@ export class Lens {
 
     // Render main lens scene to buffer
     renderer.setRenderTarget(this.renderTargetMain);
-    renderer.clear();
-    renderer.render(this.lensScene, camera);
+    this.renderBuffer(renderer, camera);
 
     // Update material for front side rendering
     this.transmissionMaterial.setBuffer(this.renderTargetMain.texture);
@@ -264,7 +288,7 @@ export class Lens {
     this.transmissionMaterial.uniforms.thickness.value = this.options.thickness;
 
     // Restore render target
-    renderer.setRenderTarget(null);
+    renderer.setRenderTarget(outputTarget);
 
     // Restore original state
     mainScene.background = this.oldBackground;
@@ -299,7 +323,13 @@ export class Lens {
     }
 
     renderer.render(this.backgroundScene, camera);
-    renderer.autoClear = true;
+    renderer.autoClear = oldAutoClear;
+  }
+
+  // Keeps the background plane under the lens when the lens moves off center
+  public setOffset(x: number, y: number): void {
+    this.backgroundMesh.position.x = x;
+    this.backgroundMesh.position.y = y;
   }
 
   public getMainScene(): THREE.Scene {
@@ -348,23 +378,35 @@ export class Lens {
     if (newOptions.size !== undefined) {
       this.lensMesh.scale.setScalar(newOptions.size);
     }
+
+    // Quality options
+    if (newOptions.samples !== undefined) {
+      this.transmissionMaterial.setSamples(newOptions.samples);
+    }
+    if (newOptions.backside !== undefined) {
+      this.setBackside(newOptions.backside);
+    }
+    if (newOptions.resolution !== undefined || newOptions.backsideResolution !== undefined) {
+      const resolution = this.options.resolution;
+      const backsideResolution = this.options.backsideResolution || resolution;
+      this.renderTargetMain.setSize(resolution, resolution);
+      this.renderTargetBack?.setSize(backsideResolution, backsideResolution);
+    }
   }
 
-  private detectMobile(): boolean {
-    if (typeof window === 'undefined') return false;
-    
-    // Detectar por user agent
-    const userAgent = window.navigator.userAgent.toLowerCase();
-    const mobileKeywords = ['mobile', 'android', 'iphone', 'ipad', 'ipod', 'blackberry', 'windows phone'];
-    const isMobileUserAgent = mobileKeywords.some(keyword => userAgent.includes(keyword));
-    
-    // Detectar por touch support
-    const isTouchDevice = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-    
-    // Detectar por tamanho de tela (opcional, mais conservador)
-    const isSmallScreen = window.innerWidth <= 768;
-    
-    return isMobileUserAgent || (isTouchDevice && isSmallScreen);
+  private setBackside(enabled: boolean): void {
+    if (enabled && !this.renderTargetBack) {
+      const backsideResolution = this.options.backsideResolution || this.options.resolution;
+      this.renderTargetBack = new THREE.WebGLRenderTarget(backsideResolution, backsideResolution, {
+        minFilter: THREE.LinearFilter,
+        magFilter: THREE.LinearFilter,
+        format: THREE.RGBAFormat,
+        type: THREE.UnsignedByteType,
+      });
+    } else if (!enabled && this.renderTargetBack) {
+      this.renderTargetBack.dispose();
+      this.renderTargetBack = undefined;
+    }
   }
 
   public dispose(): void {
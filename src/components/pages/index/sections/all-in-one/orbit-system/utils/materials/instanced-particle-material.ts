@@ -0,0 +1,46 @@
+import { MeshBasicMaterial, type MeshBasicMaterialParameters } from 'three';
+
+// MeshBasicMaterial that reads per-instance opacity and scale attributes.
+// Per-instance color comes from InstancedMesh.instanceColor.
+export class InstancedParticleMaterial extends MeshBasicMaterial {
+  constructor(parameters: MeshBasicMaterialParameters = {}) {
+    super({
+      transparent: true,
+      ...parameters
+    });
+
+    this.onBeforeCompile = (shader) => {
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          attribute float instanceOpacity;
+          attribute float instanceScale;
+          varying float vInstanceOpacity;`
+        )
+        .replace(
+          '#include <begin_vertex>',
+          `#include <begin_vertex>
+          transformed *= instanceScale;
+          vInstanceOpacity = instanceOpacity;`
+        );
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          varying float vInstanceOpacity;`
+        )
+        .replace(
+          '#include <color_fragment>',
+          `#include <color_fragment>
+          diffuseColor.a *= vInstanceOpacity;`
+        );
+    };
+  }
+
+  // Shader differs from the stock MeshBasicMaterial, keep a separate program
+  public customProgramCacheKey(): string {
+    return 'instanced-particle';
+  }
+}
@@ -373,4 +373,20 @@ export class MeshTransmissionMaterial extends THREE.MeshPhysicalMaterial {
   public setBuffer(buffer: THREE.Texture | null): void {
     this.uniforms.buffer.value = buffer;
   }
+
+  // The sample count is baked into the shader, changing it recompiles the program
+  public setSamples(samples: number): void {
+    if (samples === this.samples) return;
+    this.samples = samples;
+    this.needsUpdate = true;
+  }
+
+  public getSamples(): number {
+    return this.samples;
+  }
+
+  // onBeforeCompile reads as the same source for every sample count, key the program on it
+  public customProgramCacheKey(): string {
+    return `mesh-transmission-${this.samples}-${this.transmissionSampler}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { Vector3 } from 'three'
+import { seededRandom } from '@/utils/particle-arrangements/seeded-random'
+
+// Greedy nearest-neighbor matching between two point sets of any size. Targets take the closest
+// source nobody has taken yet, visited in a shuffled order so no side of the shape claims all the
+// close sources. Returns the source index per target, -1 when the sources ran out
+export const matchNearestPoints = (sources: Vector3[], targets: Vector3[]): number[] => {
+  const matches = new Array<number>(targets.length).fill(-1)
+  if (sources.length === 0 || targets.length === 0) return matches
+
+  const grid = new PointGrid(sources)
+  const order = targets.map((_, index) => index)
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(seededRandom(i) * (i + 1))
+    ;[order[i], order[j]] = [order[j], order[i]]
+  }
+
+  for (const targetIndex of order) {
+    const sourceIndex = grid.takeNearest(targets[targetIndex])
+    if (sourceIndex === -1) break
+    matches[targetIndex] = sourceIndex
+  }
+
+  return matches
+}
+
+// Index of the point in `points` closest to `point`, -1 for an empty set
+export const findNearestPoint = (points: Vector3[], point: Vector3): number => {
+  let nearest = -1
+  let nearestDistance = Infinity
+  for (const [index, candidate] of points.entries()) {
+    const distance = candidate.distanceToSquared(point)
+    if (distance < nearestDistance) {
+      nearest = index
+      nearestDistance = distance
+    }
+  }
+  return nearest
+}
+
+// Shells searched around a point before scanning everything left, once the grid has thinned out
+// a full scan is cheaper than walking growing empty shells
+const MAX_SHELLS = 3
+
+// Uniform grid over the points, about one point per cell, searched in growing shells
+class PointGrid {
+  private cells = new Map<string, number[]>()
+  private min = new Vector3()
+  private cellSize: number
+  private remaining: number
+
+  constructor(private points: Vector3[]) {
+    const max = new Vector3(-Infinity, -Infinity, -Infinity)
+    this.min.set(Infinity, Infinity, Infinity)
+    for (const point of points) {
+      this.min.min(point)
+      max.max(point)
+    }
+
+    const extent = Math.max(max.x - this.min.x, max.y - this.min.y, max.z - this.min.z, 1e-6)
+    const cellsPerSide = Math.max(1, Math.round(Math.cbrt(points.length)))
+    this.cellSize = extent / cellsPerSide
+    this.remaining = points.length
+
+    for (const [index, point] of points.entries()) {
+      const key = this.key(this.cell(point.x, 'x'), this.cell(point.y, 'y'), this.cell(point.z, 'z'))
+      const cell = this.cells.get(key)
+      if (cell) {
+        cell.push(index)
+      } else {
+        this.cells.set(key, [index])
+      }
+    }
+  }
+
+  private cell(value: number, axis: 'x' | 'y' | 'z'): number {
+    return Math.floor((value - this.min[axis]) / this.cellSize)
+  }
+
+  private key(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`
+  }
+
+  // Nearest point still in the grid, removed from it
+  public takeNearest(point: Vector3): number {
+    if (this.remaining === 0) return -1
+
+    const cx = this.cell(point.x, 'x')
+    const cy = this.cell(point.y, 'y')
+    const cz = this.cell(point.z, 'z')
+    let best = -1
+    let bestDistance = Infinity
+    let bestKey = ''
+    let isExact = false // no unsearched point can be closer
+
+    for (let shell = 0; shell <= MAX_SHELLS; shell++) {
+      // Anything in this shell is at least (shell - 1) cells away
+      const shellDistance = Math.max(0, shell - 1) * this.cellSize
+      if (best !== -1 && shellDistance * shellDistance > bestDistance) {
+        isExact = true
+        break
+      }
+
+      for (let x = cx - shell; x <= cx + shell; x++) {
+        for (let y = cy - shell; y <= cy + shell; y++) {
+          for (let z = cz - shell; z <= cz + shell; z++) {
+            // Only the surface of the shell, the inside was searched already
+            if (Math.max(Math.abs(x - cx), Math.abs(y - cy), Math.abs(z - cz)) !== shell) continue
+
+            const key = this.key(x, y, z)
+            for (const index of this.cells.get(key) ?? []) {
+              const distance = this.points[index].distanceToSquared(point)
+              if (distance < bestDistance) {
+                best = index
+                bestDistance = distance
+                bestKey = key
+              }
+            }
+          }
+        }
+      }
+    }
+
+    // Points past the searched shells are at least MAX_SHELLS cells away
+    const searchedDistance = MAX_SHELLS * this.cellSize
+    if (!isExact && (best === -1 || searchedDistance * searchedDistance <= bestDistance)) {
+      for (const [key, cell] of this.cells) {
+        for (const index of cell) {
+          const distance = this.points[index].distanceToSquared(point)
+          if (distance < bestDistance) {
+            best = index
+            bestDistance = distance
+            bestKey = key
+          }
+        }
+      }
+    }
+
+    const cell = this.cells.get(bestKey)
+    if (cell) {
+      cell.splice(cell.indexOf(best), 1)
+      if (cell.length === 0) this.cells.delete(bestKey)
+    }
+    this.remaining -= 1
+    return best
+  }
+}
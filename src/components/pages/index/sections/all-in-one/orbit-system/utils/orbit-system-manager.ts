@@ -1,7 +1,65 @@
 import * as THREE from 'three';
-import { OrbitingSpheres, type AnimationStage } from './orbiting-spheres';
+import {
+  OrbitingSpheres,
+  isSameOrbitHit,
+  type OrbitHit,
+  type OrbitingTextItem
+} from './orbiting-spheres';
 import { LensParticleSystem } from './lens-particle-system';
-import { DEFAULT_SETTINGS } from './config';
+import { DEFAULT_SETTINGS, type ParticleSystemSettings } from './config';
+import {
+  DEFAULT_STAGE_TIMELINE,
+  getCycleDuration,
+  getFirstStage,
+  getKeyframesDuration,
+  getLastStage,
+  getStageCamera,
+  getTimelinePosition,
+  type AnimationStage,
+  type StageTimeline
+} from './animation/stage-timeline';
+import { TypedEventEmitter, type EventListener } from './events/typed-event-emitter';
+import { AnimationClock, type ClockTimer } from './animation/animation-clock';
+import {
+  OrbitTextList,
+  getTextItemLabel,
+  type OrbitTextListEntry
+} from './accessibility/orbit-text-list';
+import { onReducedMotionChange, prefersReducedMotion } from '@/utils/reduced-motion';
+import {
+  QualityGovernor,
+  getDeviceQualityTier,
+  type QualitySettings,
+  type QualityTier
+} from './performance/quality-governor';
+import {
+  canvasToPng,
+  createCaptureTarget,
+  rasterizeElement,
+  readRenderTarget,
+  type CapturedFrame,
+  type FrameCaptureOptions
+} from './capture/frame-capture';
+import {
+  PostProcessing,
+  pickPostProcessingSettings,
+  type PostProcessingSettings
+} from './rendering/post-processing';
+import {
+  CameraRig,
+  pickCameraSettings,
+  type CameraSettings,
+  type RigCamera
+} from './camera/camera-rig';
+
+// 'autoplay' runs the timeline on the animation clock, 'scroll' maps the scroll progress onto it
+export type OrbitPlaybackMode = 'autoplay' | 'scroll';
+
+// Keeps the last keyframe active at the very end of the scroll instead of 'completed'
+const SCROLL_END_EPSILON = 0.001;
+
+// The lens and the orbits move on z = 0
+const LENS_PLANE = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
 
 export interface OrbitSystemConfig {
   // Canvas elements
@@ -13,29 +71,60 @@ export interface OrbitSystemConfig {
   responsiveScale?: number;
   orbitsResponsiveScale?: number;
   
-  // Animation settings
-  stage1Duration?: number;
-  stage2Duration?: number;
-  stage3Duration?: number;
-  stage4Duration?: number;
-  returnDelay?: number;
-  returnDuration?: number;
-  autoLoop?: boolean;
-  
-  // Lens particle system settings
-  lensSettings?: {
-    stage1Scale?: number;
-    stage2Scale?: number;
-    stage3Scale?: number;
-    stage4Scale?: number;
-    finalScale?: number;
-    initialScale?: number;
-  };
+  // Animation settings: stage durations, lens scales, orbit radii and text fades
+  timeline?: StageTimeline;
+  playbackMode?: OrbitPlaybackMode;
+  scrollTarget?: HTMLElement; // element whose scroll progress drives 'scroll' mode, defaults to container
+  clock?: AnimationClock; // time source for every system, pass one to pause, slow down or step them
+  
+  // Still or static markup shown while WebGL is lost or unavailable
+  fallbackImage?: HTMLElement | null;
+  
+  // Draw both scenes through one renderer on orbitCanvas, blobCanvas is hidden. The lens then
+  // refracts the orbits too, and the DOM texts sit above both layers
+  singleRenderer?: boolean;
+  
+  // 'auto' adapts lens samples, render target size, pixel ratio and backside to frame times
+  qualityTier?: QualityTier | 'auto';
+  
+  // Particle settings over DEFAULT_SETTINGS, e.g. a preset from PRESET_CONFIGS. The camera* and
+  // orbitControlsEnabled keys go over SECTION_CAMERA instead
+  particleSettings?: Partial<ParticleSystemSettings>;
+  
+  // Bloom, tone mapping with exposure and the debug grid, driven by the particle settings'
+  // bloom*, exposure and showGrid. Off renders straight to the canvases without tone mapping
+  postProcessing?: boolean;
+  
+  // The lens glides toward the pointer and refracts the orbits and texts behind it
+  lensCursorFollowPointer?: boolean;
+  pointerTarget?: HTMLElement; // element whose pointer moves the lens, defaults to container
   
-  // Callbacks
-  onStageChange?: (stage: AnimationStage) => void;
-  onAnimationComplete?: () => void;
-  onReset?: () => void;
+  // Accessible counterpart of the labels: an ordered list of focusable items and a live region.
+  // Announcements play during the first loop only, later loops repeat them
+  textList?: HTMLOListElement | null;
+  liveRegion?: HTMLElement | null;
+  stageAnnouncements?: Partial<Record<AnimationStage, string>>;
+  announceHiddenTexts?: ((labels: string[]) => string) | null; // message for labels leaving a stage
+}
+
+export type OrbitPauseReason = 'manual' | 'visibility' | 'context-lost' | 'capture' | 'focus';
+
+// Events emitted by OrbitSystemManager, subscribe with on()/once() and unsubscribe with off()
+export interface OrbitSystemEventMap {
+  'stage-enter': { stage: AnimationStage; previousStage: AnimationStage; loop: number };
+  'stage-exit': { stage: AnimationStage; nextStage: AnimationStage; loop: number };
+  'loop': { loop: number };
+  'text-faded': { orbitId: string; textIndex: number; item: OrbitingTextItem; visible: boolean };
+  'viewport-enter': { entry: IntersectionObserverEntry };
+  'viewport-leave': { entry: IntersectionObserverEntry };
+  'paused': { reason: OrbitPauseReason };
+  'resumed': { reason: OrbitPauseReason };
+  'context-lost': { canvas: HTMLCanvasElement };
+  'context-restored': { canvas: HTMLCanvasElement };
+  'quality-change': { tier: QualityTier; settings: QualitySettings };
+  'item-hover': { orbitId: string; hit: OrbitHit };
+  'item-leave': { orbitId: string; hit: OrbitHit };
+  'item-click': { orbitId: string; textIndex: number; item: OrbitingTextItem; target: OrbitHit['target'] };
 }
 
 export interface OrbitTextItem {
@@ -44,6 +133,35 @@ export interface OrbitTextItem {
   icon?: string;
 }
 
+// Labels of each orbit, in reading order
+const ORBIT1_TEXT_ITEMS: OrbitTextItem[] = [
+  {
+    text1: "CRM",
+    icon: '<svg width="25" height="25" viewBox="0 0 25 25" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12.5 8.36133C17.4706 8.36133 21.5 7.01818 21.5 5.36133C21.5 3.70447 17.4706 2.36133 12.5 2.36133C7.52944 2.36133 3.5 3.70447 3.5 5.36133C3.5 7.01818 7.52944 8.36133 12.5 8.36133Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M3.5 5.36133V19.3613C3.5 20.157 4.44821 20.92 6.13604 21.4826C7.82387 22.0453 10.1131 22.3613 12.5 22.3613C14.8869 22.3613 17.1761 22.0453 18.864 21.4826C20.5518 20.92 21.5 20.157 21.5 19.3613V5.36133" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M3.5 12.3613C3.5 13.157 4.44821 13.92 6.13604 14.4826C7.82387 15.0453 10.1131 15.3613 12.5 15.3613C14.8869 15.3613 17.1761 15.0453 18.864 14.4826C20.5518 13.92 21.5 13.157 21.5 12.3613" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>',
+  },
+];
+
+const ORBIT2_TEXT_ITEMS: OrbitTextItem[] = [
+  {
+    text1: "Plataforma de atendimento",
+    text2: "no WhatsApp",
+    icon: '<svg width="23" height="23" viewBox="0 0 23 23" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M2.49169 15.703C2.63873 16.0739 2.67147 16.4804 2.58569 16.87L1.52069 20.16C1.48638 20.3269 1.49525 20.4997 1.54647 20.6622C1.59769 20.8246 1.68955 20.9713 1.81336 21.0883C1.93716 21.2053 2.0888 21.2887 2.25389 21.3307C2.41898 21.3726 2.59205 21.3717 2.75669 21.328L6.16969 20.33C6.53741 20.2571 6.91822 20.289 7.26869 20.422C9.40408 21.4192 11.8231 21.6302 14.0988 21.0177C16.3746 20.4053 18.361 19.0087 19.7074 17.0744C21.0538 15.1401 21.6738 12.7924 21.458 10.4456C21.2422 8.09871 20.2044 5.90349 18.5278 4.24722C16.8511 2.59094 14.6434 1.58006 12.2941 1.39292C9.94475 1.20578 7.60483 1.8544 5.68713 3.22436C3.76944 4.59432 2.39722 6.59756 1.81258 8.88066C1.22795 11.1638 1.46846 13.58 2.49169 15.703Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>',
+  },
+  {
+    text1: "App de força",
+    text2: "de Vendas",
+    icon: '<svg width="29" height="29" viewBox="0 0 29 29" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M20.3333 2.69434H8.66659C7.37792 2.69434 6.33325 3.739 6.33325 5.02767V23.6943C6.33325 24.983 7.37792 26.0277 8.66659 26.0277H20.3333C21.6219 26.0277 22.6666 24.983 22.6666 23.6943V5.02767C22.6666 3.739 21.6219 2.69434 20.3333 2.69434Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M14.5 21.3613H14.5117" stroke="black" stroke-width="2.33333" stroke-linecap="round" stroke-linejoin="round"/></svg>',
+  },
+];
+
+// The section frames the orbits head-on without controls. DEFAULT_SETTINGS' free orthographic
+// camera with orbit controls is the particle playground's
+const SECTION_CAMERA: Pick<CameraSettings, 'cameraType' | 'cameraPreset' | 'orbitControlsEnabled'> = {
+  cameraType: 'perspective',
+  cameraPreset: 'frontal',
+  orbitControlsEnabled: false,
+};
+
 export class OrbitSystemManager {
   private container: HTMLElement;
   private orbitCanvas: HTMLCanvasElement;
@@ -52,7 +170,8 @@ export class OrbitSystemManager {
   // Three.js components
   private orbitRenderer!: THREE.WebGLRenderer;
   private blobRenderer!: THREE.WebGLRenderer;
-  private camera!: THREE.PerspectiveCamera;
+  private cameraRig!: CameraRig;
+  private camera!: RigCamera; // the rig's current camera
   private orbitScene!: THREE.Scene;
   private blobScene!: THREE.Scene;
   
@@ -66,22 +185,52 @@ export class OrbitSystemManager {
   private isInViewport: boolean = false;
   private isPageVisible: boolean = true;
   private isRendering: boolean = false;
-  private lastTime: number = 0;
+  private lastClockTime: number = 0;
   
-  // Global animation timing
+  // Global animation timing, in clock seconds
+  private clock: AnimationClock;
   private globalAnimationStartTime: number = 0;
   private isGlobalAnimationRunning: boolean = false;
   
+  // Reduced motion renders a single static frame instead of the loop
+  private reducedMotion: boolean = prefersReducedMotion();
+  private unsubscribeReducedMotion: (() => void) | null = null;
+  
+  // Adaptive quality
+  private qualityGovernor: QualityGovernor;
+  
+  // Post-processing chain on the blob renderer, or the shared one, null when disabled
+  private postProcessing: PostProcessing | null = null;
+  private postProcessingSettings: PostProcessingSettings;
+  
+  // Offscreen frame capture owns the systems while it runs
+  private isCapturing: boolean = false;
+  
+  // Stage tracking for events
+  private currentGlobalStage: AnimationStage = 'idle';
+  private events = new TypedEventEmitter<OrbitSystemEventMap>();
+  
   // Configuration
-  private config: Required<OrbitSystemConfig> & {
-    onStageChange: (stage: AnimationStage) => void;
-    onAnimationComplete: () => void;
-    onReset: () => void;
-  };
+  private config: Required<OrbitSystemConfig>;
   
   // Cloned cards management
-  private lastStageForCards: AnimationStage = 'idle';
   private showCardsTimeout: number | null = null;
+  private textFadeInTimer: ClockTimer | null = null;
+  
+  // WebGL context loss state and listeners, kept to remove them on dispose
+  private contextListeners: Array<[HTMLCanvasElement, string, (event: Event) => void]> = [];
+  private lostContexts = new Set<HTMLCanvasElement>();
+  private isFallbackOnly: boolean = false; // WebGL unavailable, only the static fallback is shown
+  
+  // Pointer listeners on pointerTarget, kept to remove them on dispose
+  private pointerListeners: Array<[string, (event: MouseEvent) => void]> = [];
+  
+  // Accessible list, the animation holds still while one of its items has focus
+  private textList: OrbitTextList | null = null;
+  private isFocusPaused: boolean = false;
+  private _pointerRay = new THREE.Vector3();
+  private raycaster = new THREE.Raycaster();
+  private _pointerNdc = new THREE.Vector2();
   
   // Resize handling
   private resizeTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -90,32 +239,54 @@ export class OrbitSystemManager {
     this.config = {
       responsiveScale: 1.0,
       orbitsResponsiveScale: 1.0,
-      stage1Duration: 3,
-      stage2Duration: 3,
-      stage3Duration: 3,
-      stage4Duration: 3,
-      returnDelay: 3000,
-      returnDuration: 1.2,
-      autoLoop: true,
-      lensSettings: {
-        stage1Scale: 0.7,
-        stage2Scale: 1.1,
-        stage3Scale: 1.4,
-        stage4Scale: 1.7,
-        finalScale: 1.7,
-        initialScale: 0.7,
-      },
-      onStageChange: () => {},
-      onAnimationComplete: () => {},
-      onReset: () => {},
+      timeline: DEFAULT_STAGE_TIMELINE,
+      playbackMode: 'autoplay',
+      scrollTarget: config.container,
+      fallbackImage: null,
+      singleRenderer: false,
+      qualityTier: 'auto',
+      particleSettings: {},
+      postProcessing: false,
+      lensCursorFollowPointer: false,
+      pointerTarget: config.container,
+      textList: null,
+      liveRegion: null,
+      stageAnnouncements: {},
+      announceHiddenTexts: null,
+      clock: new AnimationClock(),
       ...config
     };
+    this.clock = this.config.clock;
+    this.postProcessingSettings = {
+      ...pickPostProcessingSettings(DEFAULT_SETTINGS),
+      ...pickPostProcessingSettings(this.config.particleSettings)
+    } as PostProcessingSettings;
+    
+    const pinnedTier = this.config.qualityTier === 'auto' ? null : this.config.qualityTier;
+    this.qualityGovernor = new QualityGovernor({
+      initialTier: pinnedTier ?? getDeviceQualityTier(),
+      pinnedTier,
+      onChange: (tier, settings) => this.applyQuality(tier, settings),
+    });
     
     this.container = config.container;
     this.orbitCanvas = config.orbitCanvas;
     this.blobCanvas = config.blobCanvas;
     
-    this.initializeThreeJS();
+    // Built before WebGL so the items stay reachable when only the static fallback shows
+    this.setupTextList();
+    
+    try {
+      this.initializeThreeJS();
+    } catch (error) {
+      // WebGLRenderer throws when no context can be created
+      console.error('WebGL unavailable, showing the static fallback:', error);
+      this.orbitRenderer?.dispose();
+      this.isFallbackOnly = true;
+      this.showFallback();
+      return;
+    }
+    
     this.initializeAnimationSystems();
     this.setupOptimizations();
   }
@@ -123,7 +294,7 @@ export class OrbitSystemManager {
   private initializeThreeJS(): void {
     const width = this.container.clientWidth;
     const height = this.container.clientHeight;
-    const pixelRatio = Math.min(window.devicePixelRatio, 2);
+    const pixelRatio = this.getPixelRatio();
     
     // Responsive scale detection
     const isMobile = window.innerWidth < 768;
@@ -142,17 +313,22 @@ export class OrbitSystemManager {
     this.orbitRenderer.toneMapping = THREE.NoToneMapping;
     this.orbitRenderer.toneMappingExposure = 1.0;
     
-    // Blob renderer (foreground layer)
-    this.blobRenderer = new THREE.WebGLRenderer({
-      canvas: this.blobCanvas,
-      antialias: true,
-      alpha: true,
-    });
-    this.blobRenderer.setSize(width, height);
-    this.blobRenderer.setPixelRatio(pixelRatio);
-    this.blobRenderer.setClearColor(0x000000, 0);
-    this.blobRenderer.toneMapping = THREE.NoToneMapping;
-    this.blobRenderer.toneMappingExposure = 1.0;
+    // Blob renderer (foreground layer), shares the orbit renderer in single renderer mode
+    if (this.config.singleRenderer) {
+      this.blobRenderer = this.orbitRenderer;
+      this.blobCanvas.style.display = 'none';
+    } else {
+      this.blobRenderer = new THREE.WebGLRenderer({
+        canvas: this.blobCanvas,
+        antialias: true,
+        alpha: true,
+      });
+      this.blobRenderer.setSize(width, height);
+      this.blobRenderer.setPixelRatio(pixelRatio);
+      this.blobRenderer.setClearColor(0x000000, 0);
+      this.blobRenderer.toneMapping = THREE.NoToneMapping;
+      this.blobRenderer.toneMappingExposure = 1.0;
+    }
     
     // Camera setup
     const referenceHeight = 604;
@@ -160,9 +336,22 @@ export class OrbitSystemManager {
     const vFOV = (2 * Math.atan(Math.tan((referenceFOV * Math.PI) / 360) * (referenceHeight / height)) * 180) / Math.PI;
     const cameraZAdjustment = 8 * (height / referenceHeight);
     
-    this.camera = new THREE.PerspectiveCamera(vFOV, width / height, 0.1, 1000);
-    this.camera.position.set(0, 0, cameraZAdjustment);
-    this.camera.lookAt(0, 0, 0);
+    // The camera holds no GPU resources and survives a context rebuild
+    if (!this.cameraRig) {
+      this.cameraRig = new CameraRig({
+        aspect: width / height,
+        fov: vFOV,
+        distance: cameraZAdjustment,
+        settings: {
+          ...pickCameraSettings(DEFAULT_SETTINGS),
+          ...SECTION_CAMERA,
+          ...pickCameraSettings(this.config.particleSettings),
+        } as CameraSettings,
+        controlsElement: this.blobRenderer.domElement, // the top canvas in both renderer setups
+        onChange: () => this.renderStill(),
+      });
+    }
+    this.camera = this.cameraRig.getCamera();
     
     // Scenes
     this.orbitScene = new THREE.Scene();
@@ -176,19 +365,7 @@ export class OrbitSystemManager {
     
     // Lens particle system
     this.animatedParticleSystem = new LensParticleSystem({
-      stage1Duration: this.config.stage1Duration,
-      stage2Duration: this.config.stage2Duration,
-      stage3Duration: this.config.stage3Duration,
-      stage4Duration: this.config.stage4Duration,
-      stage1Scale: this.config.lensSettings.stage1Scale,
-      stage2Scale: this.config.lensSettings.stage2Scale,
-      stage3Scale: this.config.lensSettings.stage3Scale,
-      stage4Scale: this.config.lensSettings.stage4Scale,
-      finalScale: this.config.lensSettings.finalScale,
-      initialScale: this.config.lensSettings.initialScale,
-      returnDelay: this.config.returnDelay,
-      returnDuration: this.config.returnDuration,
-      autoLoop: this.config.autoLoop,
+      timeline: this.config.timeline,
       
       lensCursorSize: DEFAULT_SETTINGS.lensCursorSize,
       lensCursorIor: DEFAULT_SETTINGS.lensCursorIor,
@@ -200,14 +377,16 @@ export class OrbitSystemManager {
       lensCursorDistortion: DEFAULT_SETTINGS.lensCursorDistortion,
       lensCursorDistortionScale: DEFAULT_SETTINGS.lensCursorDistortionScale,
       lensCursorTemporalDistortion: DEFAULT_SETTINGS.lensCursorTemporalDistortion,
-      lensCursorSamples: 4,
-      lensCursorBackside: false,
+      lensCursorSamples: this.qualityGovernor.getSettings().samples,
+      lensCursorBackside: this.qualityGovernor.getSettings().backside,
       lensCursorBacksideThickness: DEFAULT_SETTINGS.lensCursorBacksideThickness,
       lensCursorTransmissionSampler: DEFAULT_SETTINGS.lensCursorTransmissionSampler,
-      lensCursorResolution: 2024,
+      lensCursorResolution: this.qualityGovernor.getSettings().resolution,
       lensCursorBacksideResolution: DEFAULT_SETTINGS.lensCursorBacksideResolution,
       lensCursorBackground: "#CCE4F3",
       lensCursorBackgroundScale: 0.2,
+      lensCursorFollowPointer: this.config.lensCursorFollowPointer,
+      lensCursorDamping: DEFAULT_SETTINGS.lensCursorDamping,
       
       pulseEnabled: true,
       pulseMinScale: 0.98,
@@ -220,36 +399,15 @@ export class OrbitSystemManager {
       
       particleSettings: {
         ...DEFAULT_SETTINGS,
-        particleSize: DEFAULT_SETTINGS.particleSize,
-        radius: DEFAULT_SETTINGS.radius,
+        ...this.config.particleSettings,
       },
-      
-      onStageChange: this.config.onStageChange,
     });
     
     this.blobScene.add(this.animatedParticleSystem.getGroup());
     
-    // Orbit 1 configuration
-    const orbitingTextItems1: OrbitTextItem[] = [
-      {
-        text1: "CRM",
-        icon: '<svg width="25" height="25" viewBox="0 0 25 25" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12.5 8.36133C17.4706 8.36133 21.5 7.01818 21.5 5.36133C21.5 3.70447 17.4706 2.36133 12.5 2.36133C7.52944 2.36133 3.5 3.70447 3.5 5.36133C3.5 7.01818 7.52944 8.36133 12.5 8.36133Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M3.5 5.36133V19.3613C3.5 20.157 4.44821 20.92 6.13604 21.4826C7.82387 22.0453 10.1131 22.3613 12.5 22.3613C14.8869 22.3613 17.1761 22.0453 18.864 21.4826C20.5518 20.92 21.5 20.157 21.5 19.3613V5.36133" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M3.5 12.3613C3.5 13.157 4.44821 13.92 6.13604 14.4826C7.82387 15.0453 10.1131 15.3613 12.5 15.3613C14.8869 15.3613 17.1761 15.0453 18.864 14.4826C20.5518 13.92 21.5 13.157 21.5 12.3613" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>',
-      },
-    ];
-    
-    // Orbit 2 configuration
-    const orbitingTextItems2: OrbitTextItem[] = [
-      {
-        text1: "Plataforma de atendimento",
-        text2: "no WhatsApp",
-        icon: '<svg width="23" height="23" viewBox="0 0 23 23" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M2.49169 15.703C2.63873 16.0739 2.67147 16.4804 2.58569 16.87L1.52069 20.16C1.48638 20.3269 1.49525 20.4997 1.54647 20.6622C1.59769 20.8246 1.68955 20.9713 1.81336 21.0883C1.93716 21.2053 2.0888 21.2887 2.25389 21.3307C2.41898 21.3726 2.59205 21.3717 2.75669 21.328L6.16969 20.33C6.53741 20.2571 6.91822 20.289 7.26869 20.422C9.40408 21.4192 11.8231 21.6302 14.0988 21.0177C16.3746 20.4053 18.361 19.0087 19.7074 17.0744C21.0538 15.1401 21.6738 12.7924 21.458 10.4456C21.2422 8.09871 20.2044 5.90349 18.5278 4.24722C16.8511 2.59094 14.6434 1.58006 12.2941 1.39292C9.94475 1.20578 7.60483 1.8544 5.68713 3.22436C3.76944 4.59432 2.39722 6.59756 1.81258 8.88066C1.22795 11.1638 1.46846 13.58 2.49169 15.703Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>',
-      },
-      {
-        text1: "App de força",
-        text2: "de Vendas",
-        icon: '<svg width="29" height="29" viewBox="0 0 29 29" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M20.3333 2.69434H8.66659C7.37792 2.69434 6.33325 3.739 6.33325 5.02767V23.6943C6.33325 24.983 7.37792 26.0277 8.66659 26.0277H20.3333C21.6219 26.0277 22.6666 24.983 22.6666 23.6943V5.02767C22.6666 3.739 21.6219 2.69434 20.3333 2.69434Z" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M14.5 21.3613H14.5117" stroke="black" stroke-width="2.33333" stroke-linecap="round" stroke-linejoin="round"/></svg>',
-      },
-    ];
+    // Sharing a renderer lets the transmission buffer capture the orbits behind the lens. A moving
+    // lens refracts them either way, the blob renderer then draws the orbit scene a second time
+    this.updateTransmissionUnderlay();
     
     const orbit1Config = {
       sphereCount: 300,
@@ -262,30 +420,22 @@ export class OrbitSystemManager {
       enabled: true,
       isAnimating: true,
       
-      textItems: orbitingTextItems1,
+      textItems: ORBIT1_TEXT_ITEMS,
       showTexts: true,
       textOffset: 0,
       
-      stage1Duration: this.config.stage1Duration,
-      stage2Duration: this.config.stage2Duration,
-      stage3Duration: this.config.stage3Duration,
-      stage4Duration: this.config.stage4Duration,
-      stage1Radius: 3.6,
-      stage2Radius: 3.2,
-      stage3Radius: 2.5,
-      stage4Radius: 1.6,
-      finalRadius: 1.6,
-      autoLoop: this.config.autoLoop,
-      returnDelay: this.config.returnDelay,
-      returnDuration: this.config.returnDuration,
+      timeline: this.config.timeline,
+      orbitId: 'orbit1',
+      clock: this.clock,
       
-      hideTextsByStage: { 0: "stage4" as AnimationStage },
       textFadeInDuration: 0.2,
       textFadeOutDuration: 0.3,
       
       responsiveScale: orbitsResponsiveScale,
       
-      onStageChange: this.config.onStageChange,
+      onTextFade: (textIndex: number, visible: boolean) => {
+        this.events.emit('text-faded', { orbitId: 'orbit1', textIndex, item: ORBIT1_TEXT_ITEMS[textIndex], visible });
+      },
     };
     
     const orbit2Config = {
@@ -299,30 +449,22 @@ export class OrbitSystemManager {
       enabled: true,
       isAnimating: true,
       
-      textItems: orbitingTextItems2,
+      textItems: ORBIT2_TEXT_ITEMS,
       showTexts: true,
       textOffset: 0,
       
-      stage1Duration: this.config.stage1Duration,
-      stage2Duration: this.config.stage2Duration,
-      stage3Duration: this.config.stage3Duration,
-      stage4Duration: this.config.stage4Duration,
-      stage1Radius: 2.2,
-      stage2Radius: 1.8,
-      stage3Radius: 1.3,
-      stage4Radius: 1,
-      finalRadius: 1,
-      autoLoop: this.config.autoLoop,
-      returnDelay: this.config.returnDelay,
-      returnDuration: this.config.returnDuration,
+      timeline: this.config.timeline,
+      orbitId: 'orbit2',
+      clock: this.clock,
       
-      hideTextsByStage: { 0: "stage2" as AnimationStage, 1: "stage3" as AnimationStage },
       textFadeInDuration: 0.2,
       textFadeOutDuration: 0.3,
       
       responsiveScale: orbitsResponsiveScale,
       
-      onStageChange: this.config.onStageChange,
+      onTextFade: (textIndex: number, visible: boolean) => {
+        this.events.emit('text-faded', { orbitId: 'orbit2', textIndex, item: ORBIT2_TEXT_ITEMS[textIndex], visible });
+      },
     };
     
     this.orbit1 = new OrbitingSpheres(orbit1Config);
@@ -339,6 +481,41 @@ export class OrbitSystemManager {
     // Initialize for global timing
     this.orbit1.initializeForGlobalTiming();
     this.orbit2.initializeForGlobalTiming();
+    this.orbit1.setScrubbing(this.config.playbackMode === 'scroll');
+    this.orbit2.setScrubbing(this.config.playbackMode === 'scroll');
+    
+    this.setupPostProcessing();
+  }
+  
+  private setupPostProcessing(): void {
+    if (!this.config.postProcessing) return;
+    
+    // One renderer runs the whole frame through the chain. With two, the chain glows the blob
+    // layer and the orbit renderer tone maps on its own so both layers match
+    const isSingleRenderer = this.blobRenderer === this.orbitRenderer;
+    this.postProcessing = new PostProcessing(
+      this.blobRenderer,
+      (target) => (isSingleRenderer ? this.drawCombinedLayers(target) : this.drawBlobLayer(target)),
+      this.orbitScene,
+      this.postProcessingSettings
+    );
+    this.applyOrbitLayerSettings();
+  }
+  
+  // The orbit renderer draws the bottom layer in both modes, so it clears to the background color.
+  // Transparent without the chain, the page shows through as before
+  private applyOrbitLayerSettings(): void {
+    const isEnabled = this.postProcessing !== null;
+    if (isEnabled) {
+      this.orbitRenderer.setClearColor(this.postProcessingSettings.backgroundColor, 1);
+    } else {
+      this.orbitRenderer.setClearColor(0x000000, 0);
+    }
+    
+    if (this.blobRenderer === this.orbitRenderer) return;
+    
+    this.orbitRenderer.toneMapping = isEnabled ? THREE.ACESFilmicToneMapping : THREE.NoToneMapping;
+    this.orbitRenderer.toneMappingExposure = isEnabled ? this.postProcessingSettings.exposure : 1.0;
   }
   
   private setupOptimizations(): void {
@@ -350,6 +527,271 @@ export class OrbitSystemManager {
     
     // 3. RequestAnimationFrame com controle
     this.setupResizeHandler();
+    
+    // 4. WebGL context loss
+    this.setupContextLossHandling();
+    
+    // 5. prefers-reduced-motion, followed live
+    this.unsubscribeReducedMotion = onReducedMotionChange((reduced) => this.setReducedMotion(reduced));
+    
+    // 6. Pointer following lens, hover and click on spheres and labels
+    this.setupPointerInteraction();
+  }
+  
+  private setupPointerInteraction(): void {
+    const handleMove = (event: MouseEvent) => {
+      if (this.isCapturing) return;
+      const point = this.pointerToWorld(event.clientX, event.clientY);
+      if (point) this.animatedParticleSystem.setPointerTarget(point.x, point.y);
+      this.updateHover(event.clientX, event.clientY);
+    };
+    const handleLeave = () => {
+      this.animatedParticleSystem.clearPointerTarget();
+      this.updateHover(null, null);
+    };
+    const handleClick = (event: MouseEvent) => {
+      if (this.isCapturing) return;
+      const hovered = this.updateHover(event.clientX, event.clientY);
+      const item = hovered?.hit.item;
+      if (!hovered || !item) return;
+      
+      const { orbitId, hit } = hovered;
+      this.events.emit('item-click', { orbitId, textIndex: hit.textIndex, item, target: hit.target });
+    };
+    
+    this.pointerListeners = [
+      ['pointermove', handleMove],
+      ['pointerdown', handleMove],
+      ['pointerleave', handleLeave],
+      ['pointercancel', handleLeave],
+      ['click', handleClick],
+    ];
+    for (const [type, handler] of this.pointerListeners) {
+      this.config.pointerTarget.addEventListener(type, handler as (event: Event) => void);
+    }
+  }
+  
+  // Hovers the first sphere or label under the client position, null positions clear the hover.
+  // Returns what is hovered afterwards
+  private updateHover(clientX: number | null, clientY: number | null): { orbitId: string; hit: OrbitHit } | null {
+    if (this.isFallbackOnly) return null;
+    
+    if (clientX !== null && clientY !== null) {
+      const rect = this.container.getBoundingClientRect();
+      this._pointerNdc.set(
+        ((clientX - rect.left) / rect.width) * 2 - 1,
+        -((clientY - rect.top) / rect.height) * 2 + 1
+      );
+      this.raycaster.setFromCamera(this._pointerNdc, this.camera);
+    }
+    
+    let hovered: { orbitId: string; hit: OrbitHit } | null = null;
+    let hasChanged = false;
+    for (const orbit of [this.orbit1, this.orbit2]) {
+      const hit: OrbitHit | null = hovered || clientX === null || clientY === null
+        ? null
+        : orbit.hitTest(this.raycaster, clientX, clientY);
+      const previous = orbit.getHovered();
+      if (isSameOrbitHit(previous, hit)) {
+        if (hit) hovered = { orbitId: orbit.getOrbitId(), hit };
+        continue;
+      }
+      
+      hasChanged = true;
+      orbit.setHovered(hit);
+      const orbitId = orbit.getOrbitId();
+      if (previous) this.events.emit('item-leave', { orbitId, hit: previous });
+      if (hit) {
+        hovered = { orbitId, hit };
+        this.events.emit('item-hover', { orbitId, hit });
+      }
+    }
+    
+    if (hasChanged) {
+      this.config.pointerTarget.style.cursor = hovered?.hit.item ? 'pointer' : '';
+      
+      // Without a loop running the highlight needs a frame of its own
+      if (this.reducedMotion && this.isInViewport && !this.isCapturing && this.lostContexts.size === 0) {
+        this.renderFrame();
+      }
+    }
+    return hovered;
+  }
+  
+  // Where the ray under a client position meets the z = 0 plane the lens moves on, null when the
+  // camera looks along the plane
+  private pointerToWorld(clientX: number, clientY: number): THREE.Vector3 | null {
+    const rect = this.container.getBoundingClientRect();
+    this._pointerNdc.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    
+    // The raycaster handles both camera types
+    this.raycaster.setFromCamera(this._pointerNdc, this.camera);
+    return this.raycaster.ray.intersectPlane(LENS_PLANE, this._pointerRay);
+  }
+  
+  private updateTransmissionUnderlay(): void {
+    const needsUnderlay = this.config.singleRenderer || this.config.lensCursorFollowPointer;
+    this.animatedParticleSystem.setTransmissionUnderlay(needsUnderlay ? this.orbitScene : null);
+  }
+  
+  // Lens circle in container pixels for the DOM texts, null while the lens stays centered
+  private updateLensFocus(): void {
+    if (!this.config.lensCursorFollowPointer) {
+      this.orbit1.setLensFocus(null);
+      this.orbit2.setLensFocus(null);
+      return;
+    }
+    
+    const { x, y, radius } = this.animatedParticleSystem.getLensCircle();
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    const center = this._pointerRay.set(x, y, 0).project(this.camera);
+    const centerX = (center.x + 1) * 0.5 * width;
+    const centerY = (1 - center.y) * 0.5 * height;
+    const edge = this._pointerRay.set(x + radius, y, 0).project(this.camera);
+    const focus = { x: centerX, y: centerY, radius: Math.abs((edge.x + 1) * 0.5 * width - centerX) };
+    
+    this.orbit1.setLensFocus(focus);
+    this.orbit2.setLensFocus(focus);
+  }
+  
+  private setupTextList(): void {
+    if (!this.config.textList) return;
+    
+    const entries: OrbitTextListEntry[] = [
+      ...ORBIT1_TEXT_ITEMS.map((item, textIndex) => ({ orbitId: 'orbit1', textIndex, item })),
+      ...ORBIT2_TEXT_ITEMS.map((item, textIndex) => ({ orbitId: 'orbit2', textIndex, item })),
+    ];
+    
+    this.textList = new OrbitTextList(
+      {
+        list: this.config.textList,
+        liveRegion: this.config.liveRegion,
+        onFocus: (entry) => this.focusTextItem(entry),
+        onBlur: () => this.focusTextItem(null),
+        onActivate: ({ orbitId, textIndex, item }) => {
+          this.events.emit('item-click', { orbitId, textIndex, item, target: 'text' });
+        },
+      },
+      entries
+    );
+  }
+  
+  // Holds the animation and highlights the focused item's label, null releases both
+  private focusTextItem(entry: OrbitTextListEntry | null): void {
+    const wasRendering = this.isRendering;
+    this.isFocusPaused = entry !== null;
+    
+    if (!this.isFallbackOnly) {
+      for (const orbit of [this.orbit1, this.orbit2]) {
+        if (!entry || entry.orbitId !== orbit.getOrbitId()) {
+          orbit.setHovered(null);
+          continue;
+        }
+        orbit.setHovered({ target: 'text', sphereIndex: -1, textIndex: entry.textIndex, item: entry.item });
+      }
+    }
+    
+    if (entry) {
+      this.stopRenderLoop();
+    } else {
+      this.startRenderLoop();
+    }
+    this.emitRenderStateChange(wasRendering, 'focus');
+  }
+  
+  // Stage message from the config, else the labels that fade out on this stage
+  private announceStage(stage: AnimationStage, loop: number): void {
+    if (!this.textList || loop > 0) return;
+    
+    let message = this.config.stageAnnouncements[stage];
+    if (message === undefined && this.config.announceHiddenTexts) {
+      const keyframe = this.config.timeline.keyframes.find((candidate) => candidate.name === stage);
+      const labels = Object.entries(keyframe?.hideTexts ?? {}).flatMap(([orbitId, indices]) => {
+        const items = orbitId === 'orbit1' ? ORBIT1_TEXT_ITEMS : orbitId === 'orbit2' ? ORBIT2_TEXT_ITEMS : [];
+        return indices.filter((index) => items[index]).map((index) => getTextItemLabel(items[index]));
+      });
+      if (labels.length > 0) message = this.config.announceHiddenTexts(labels);
+    }
+    
+    if (message) this.textList.announce(message);
+  }
+  
+  private setupContextLossHandling(): void {
+    for (const canvas of [this.orbitCanvas, this.blobCanvas]) {
+      const handleLost = (event: Event) => {
+        // Without preventDefault the browser never restores the context
+        event.preventDefault();
+        this.handleContextLost(canvas);
+      };
+      const handleRestored = () => this.handleContextRestored(canvas);
+      
+      canvas.addEventListener('webglcontextlost', handleLost);
+      canvas.addEventListener('webglcontextrestored', handleRestored);
+      this.contextListeners.push(
+        [canvas, 'webglcontextlost', handleLost],
+        [canvas, 'webglcontextrestored', handleRestored]
+      );
+    }
+  }
+  
+  private handleContextLost(canvas: HTMLCanvasElement): void {
+    const wasRendering = this.isRendering;
+    this.lostContexts.add(canvas);
+    
+    this.stopRenderLoop();
+    this.showFallback();
+    
+    this.emitRenderStateChange(wasRendering, 'context-lost');
+    this.events.emit('context-lost', { canvas });
+  }
+  
+  private handleContextRestored(canvas: HTMLCanvasElement): void {
+    this.lostContexts.delete(canvas);
+    this.events.emit('context-restored', { canvas });
+    
+    // Wait for both canvases before rebuilding, they share the scenes' resources
+    if (this.lostContexts.size > 0) return;
+    
+    this.rebuildRenderers();
+    this.hideFallback();
+    
+    if (this.isInViewport && this.isPageVisible) {
+      this.resetAnimation();
+      this.startRenderLoop();
+      this.emitRenderStateChange(false, 'context-lost');
+    }
+  }
+  
+  // GPU resources died with the context, recreate renderers, render targets and materials
+  private rebuildRenderers(): void {
+    this.animatedParticleSystem.dispose();
+    this.orbit1.dispose();
+    this.orbit2.dispose();
+    this.disposeRenderers();
+    
+    this.currentGlobalStage = 'idle';
+    this.initializeThreeJS();
+    this.initializeAnimationSystems();
+  }
+  
+  private showFallback(): void {
+    this.orbitCanvas.style.visibility = 'hidden';
+    this.blobCanvas.style.visibility = 'hidden';
+    if (this.config.fallbackImage) {
+      this.config.fallbackImage.hidden = false;
+    }
+  }
+  
+  private hideFallback(): void {
+    this.orbitCanvas.style.visibility = '';
+    this.blobCanvas.style.visibility = '';
+    if (this.config.fallbackImage) {
+      this.config.fallbackImage.hidden = true;
+    }
   }
   
   private setupIntersectionObserver(): void {
@@ -360,19 +802,22 @@ export class OrbitSystemManager {
         this.isInViewport = entry.isIntersecting;
         
         if (!wasInViewport && this.isInViewport) {
+          this.events.emit('viewport-enter', { entry });
+          
           // Entrando na viewport - resetar animação completamente
           this.resetAnimation();
           this.startRenderLoop();
           
           // Fade in orbit texts after delay
-          setTimeout(() => {
+          this.textFadeInTimer?.cancel();
+          this.textFadeInTimer = this.clock.setTimeout(() => {
             this.orbit1.fadeInTexts(0.2);
             this.orbit2.fadeInTexts(0.2);
-            
-          }, 300);
+          }, 0.3);
         } else if (wasInViewport && !this.isInViewport) {
           // Saindo da viewport
           this.stopRenderLoop();
+          this.events.emit('viewport-leave', { entry });
         }
       },
       {
@@ -387,19 +832,21 @@ export class OrbitSystemManager {
   private setupPageVisibility(): void {
     const handleVisibilityChange = () => {
       this.isPageVisible = !document.hidden;
+      const wasRendering = this.isRendering;
       
       if (this.isPageVisible && this.isInViewport) {
         this.startRenderLoop();
-        
       } else {
         this.stopRenderLoop();
-        
       }
+      
+      this.emitRenderStateChange(wasRendering, 'visibility');
     };
     
     document.addEventListener('visibilitychange', handleVisibilityChange);
   }
   
+  // Debounced on real time, not the clock, so resizing still works while the clock is paused
   private setupResizeHandler(): void {
     const handleResize = () => {
       if (this.resizeTimeout) {
@@ -410,14 +857,21 @@ export class OrbitSystemManager {
         const newWidth = this.container.clientWidth;
         const newHeight = this.container.clientHeight;
         
-        this.camera.aspect = newWidth / newHeight;
-        this.camera.updateProjectionMatrix();
+        this.cameraRig.setAspect(newWidth / newHeight);
         
         this.orbitRenderer.setSize(newWidth, newHeight);
-        this.orbitRenderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        this.orbitRenderer.setPixelRatio(this.getPixelRatio());
+        
+        if (this.blobRenderer !== this.orbitRenderer) {
+          this.blobRenderer.setSize(newWidth, newHeight);
+          this.blobRenderer.setPixelRatio(this.getPixelRatio());
+        }
+        this.postProcessing?.setSize(newWidth, newHeight, this.getPixelRatio());
         
-        this.blobRenderer.setSize(newWidth, newHeight);
-        this.blobRenderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        // Resizing clears the canvases and no loop will draw them again
+        if (this.reducedMotion && this.isInViewport) {
+          this.renderStaticFrame();
+        }
         
         this.resizeTimeout = null;
       }, 100);
@@ -428,9 +882,18 @@ export class OrbitSystemManager {
   
   private startRenderLoop(): void {
     if (this.isRendering || !this.isInViewport || !this.isPageVisible) return;
+    if (this.isFallbackOnly || this.lostContexts.size > 0 || this.isCapturing || this.isFocusPaused) return;
+    
+    if (this.reducedMotion) {
+      this.renderStaticFrame();
+      return;
+    }
     
+    // Time while the loop was stopped doesn't count
     this.isRendering = true;
-    this.lastTime = performance.now();
+    this.clock.resync();
+    this.lastClockTime = this.clock.getElapsed();
+    this.qualityGovernor.reset();
     this.renderLoop();
   }
   
@@ -448,64 +911,193 @@ export class OrbitSystemManager {
       return;
     }
     
-    const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastTime) / 1000;
-    this.lastTime = currentTime;
+    // Clock time moves the systems, real frame time drives the quality governor
+    this.clock.tick();
+    const clockTime = this.clock.getElapsed();
+    const deltaTime = clockTime - this.lastClockTime;
+    this.lastClockTime = clockTime;
+    this.qualityGovernor.recordFrame(this.clock.getRealDelta() * 1000);
     
-    // Calculate global elapsed time
-    const globalElapsed = (Date.now() - this.globalAnimationStartTime) / 1000;
-    const globalStage = this.getCurrentGlobalStage(globalElapsed);
+    this.updateSystems(deltaTime, this.getGlobalElapsed());
+    this.renderFrame();
+    
+    // Continue loop
+    this.animationFrameId = requestAnimationFrame(this.renderLoop);
+  };
+  
+  // Advance every system to `globalElapsed` seconds into the timeline
+  private updateSystems(deltaTime: number, globalElapsed: number): void {
+    this.cameraRig.update(deltaTime);
     
+    const globalStage = this.getCurrentGlobalStage(globalElapsed);
+    this.updateGlobalStage(globalStage, globalElapsed);
     
-    // Update all systems with global timing
     this.animatedParticleSystem.update(deltaTime, globalElapsed, globalStage);
+    this.updateLensFocus();
     this.orbit1.update(deltaTime, globalElapsed, globalStage);
     this.orbit2.update(deltaTime, globalElapsed, globalStage);
+  }
+  
+  // Last stage layout with every text visible
+  private renderStaticFrame(): void {
+    const stage = getLastStage(this.config.timeline);
+    this.updateGlobalStage(stage, 0);
+    
+    this.animatedParticleSystem.setStaticFrame(stage);
+    this.orbit1.setStaticFrame(stage);
+    this.orbit2.setStaticFrame(stage);
+    
+    this.renderFrame();
+  }
+  
+  // Draws to the canvases, or to offscreen targets while capturing
+  private renderFrame(
+    orbitTarget: THREE.WebGLRenderTarget | null = null,
+    blobTarget: THREE.WebGLRenderTarget | null = null
+  ): void {
+    if (this.blobRenderer === this.orbitRenderer) {
+      if (this.postProcessing) {
+        this.postProcessing.render(orbitTarget);
+      } else {
+        this.drawCombinedLayers(orbitTarget);
+        this.orbitRenderer.setRenderTarget(null);
+      }
+      return;
+    }
     
     // Render orbits (background layer)
+    this.orbitRenderer.setRenderTarget(orbitTarget);
     this.orbitRenderer.render(this.orbitScene, this.camera);
+    this.orbitRenderer.setRenderTarget(null);
     
     // Render blob with lens effects (foreground layer)
+    if (this.postProcessing) {
+      this.postProcessing.render(blobTarget);
+    } else {
+      this.drawBlobLayer(blobTarget);
+      this.blobRenderer.setRenderTarget(null);
+    }
+  }
+  
+  // One canvas: clear once, draw the orbits, then the blob on top of them
+  private drawCombinedLayers(target: THREE.WebGLRenderTarget | null): void {
+    const renderer = this.orbitRenderer;
+    renderer.setRenderTarget(target);
+    renderer.autoClear = false;
+    renderer.clear();
+    renderer.render(this.orbitScene, this.camera);
+    renderer.clearDepth();
+    this.animatedParticleSystem.render(renderer, this.camera, this.blobScene);
+    renderer.autoClear = true;
+  }
+  
+  private drawBlobLayer(target: THREE.WebGLRenderTarget | null): void {
+    this.blobRenderer.setRenderTarget(target);
     this.animatedParticleSystem.render(this.blobRenderer, this.camera, this.blobScene);
+  }
+  
+  private getPixelRatio(): number {
+    return Math.min(window.devicePixelRatio, this.qualityGovernor.getSettings().pixelRatio);
+  }
+  
+  private applyQuality(tier: QualityTier, settings: QualitySettings): void {
+    if (!this.isFallbackOnly && this.animatedParticleSystem) {
+      this.animatedParticleSystem.updateOptions({
+        lensCursorSamples: settings.samples,
+        lensCursorResolution: settings.resolution,
+        lensCursorBackside: settings.backside,
+      });
+      
+      const pixelRatio = this.getPixelRatio();
+      this.orbitRenderer.setPixelRatio(pixelRatio);
+      this.blobRenderer.setPixelRatio(pixelRatio);
+      this.postProcessing?.setSize(this.container.clientWidth, this.container.clientHeight, pixelRatio);
+    }
     
-    // Continue loop
-    this.animationFrameId = requestAnimationFrame(this.renderLoop);
-  };
+    this.events.emit('quality-change', { tier, settings });
+  }
+  
+  private disposeRenderers(): void {
+    this.postProcessing?.dispose();
+    this.postProcessing = null;
+    this.orbitRenderer.dispose();
+    if (this.blobRenderer !== this.orbitRenderer) {
+      this.blobRenderer.dispose();
+    }
+  }
+  
+  private getGlobalElapsed(): number {
+    if (this.config.playbackMode === 'scroll') {
+      const duration = getKeyframesDuration(this.config.timeline);
+      return Math.min(this.getScrollProgress() * duration, duration - SCROLL_END_EPSILON);
+    }
+    return this.clock.getElapsed() - this.globalAnimationStartTime;
+  }
+  
+  // 0 when the target starts entering the viewport, 1 when it has left it. Targets taller than
+  // the viewport (sticky layouts) go from 0 to 1 while their top scrolls past the viewport top
+  private getScrollProgress(): number {
+    const rect = this.config.scrollTarget.getBoundingClientRect();
+    const viewportHeight = window.innerHeight;
+    const isPinned = rect.height > viewportHeight;
+    const start = isPinned ? 0 : viewportHeight;
+    const distance = isPinned ? rect.height - viewportHeight : rect.height + viewportHeight;
+    
+    if (distance <= 0) return 0;
+    return Math.min(1, Math.max(0, (start - rect.top) / distance));
+  }
   
   private getCurrentGlobalStage(globalElapsed: number): AnimationStage {
     if (!this.isGlobalAnimationRunning) return 'idle';
+    return getTimelinePosition(this.config.timeline, globalElapsed).stage;
+  }
+  
+  // Emits stage-exit/stage-enter once per change, and loop when the timeline wraps around
+  private updateGlobalStage(stage: AnimationStage, globalElapsed: number): void {
+    const previousStage = this.currentGlobalStage;
+    if (stage === previousStage) return;
     
-    const STAGE_CYCLE_TIME = this.config.stage1Duration + this.config.stage2Duration + 
-                            this.config.stage3Duration + this.config.stage4Duration;
-    const TOTAL_CYCLE_TIME = STAGE_CYCLE_TIME + this.config.returnDelay / 1000 + this.config.returnDuration;
+    const { loop } = getTimelinePosition(this.config.timeline, globalElapsed);
+    this.currentGlobalStage = stage;
     
-    // If autoLoop is disabled, lock at stage4 after completing all stages
-    if (!this.config.autoLoop && globalElapsed >= STAGE_CYCLE_TIME) {
-      return 'stage4';
-    }
+    this.events.emit('stage-exit', { stage: previousStage, nextStage: stage, loop });
+    this.events.emit('stage-enter', { stage, previousStage, loop });
+    this.announceStage(stage, loop);
+    this.applyStageCamera(stage);
     
-    // Handle looping
-    const cycleElapsed = this.config.autoLoop ? globalElapsed % TOTAL_CYCLE_TIME : globalElapsed;
+    if (previousStage === 'returning' && stage === getFirstStage(this.config.timeline)) {
+      this.events.emit('loop', { loop });
+    }
+  }
+  
+  // Eases to the stage's camera, or back to the configured one. Snaps without motion
+  private applyStageCamera(stage: AnimationStage, snap: boolean = this.reducedMotion): void {
+    const { timeline } = this.config;
+    const stageCamera = getStageCamera(timeline, stage);
+    const defaultDuration = stage === 'returning' ? timeline.returnDuration : timeline.transitionDuration;
+    const duration = snap ? 0 : stageCamera?.duration ?? defaultDuration;
     
-    if (cycleElapsed < this.config.stage1Duration) {
-      return 'stage1';
-    } else if (cycleElapsed < this.config.stage1Duration + this.config.stage2Duration) {
-      return 'stage2';
-    } else if (cycleElapsed < this.config.stage1Duration + this.config.stage2Duration + this.config.stage3Duration) {
-      return 'stage3';
-    } else if (cycleElapsed < STAGE_CYCLE_TIME) {
-      return 'stage4' as AnimationStage;
-    } else if (cycleElapsed < STAGE_CYCLE_TIME + this.config.returnDelay / 1000) {
-      return 'completed';
-    } else {
-      return 'returning';
+    this.cameraRig.moveTo(this.cameraRig.resolvePose(stageCamera), duration);
+  }
+  
+  // A frame for changes made while no loop runs, e.g. dragging the orbit controls under reduced motion
+  private renderStill(): void {
+    if (!this.isRendering && this.isInViewport && !this.isCapturing && this.lostContexts.size === 0) {
+      this.renderFrame();
+    }
+  }
+  
+  private emitRenderStateChange(wasRendering: boolean, reason: OrbitPauseReason): void {
+    if (wasRendering && !this.isRendering) {
+      this.events.emit('paused', { reason });
+    } else if (!wasRendering && this.isRendering) {
+      this.events.emit('resumed', { reason });
     }
   }
   
   private resetAnimation(): void {
-    this.globalAnimationStartTime = Date.now();
+    this.globalAnimationStartTime = this.clock.getElapsed();
     this.isGlobalAnimationRunning = true;
-    this.lastTime = 0;
     
     // Reset orbit rotations to initial positions
     const isMobile = window.innerWidth < 768;
@@ -520,23 +1112,264 @@ export class OrbitSystemManager {
     this.orbit2.resyncTextPositions();    
   }
   
+  // Rewind every system to the first frame of the timeline
+  private resetToStart(): void {
+    this.resetAnimation();
+    this.currentGlobalStage = 'idle';
+    this.applyStageCamera('idle', true);
+    this.animatedParticleSystem.resetToStart();
+    this.orbit1.resetToStart();
+    this.orbit2.resetToStart();
+  }
+  
+  // Renders the timeline offscreen on a fixed timestep, independent of real time, scroll position
+  // and display size. The clock is stepped along, so its timeouts fire as in playback. Layers are
+  // composited like the page (orbits, texts, blob) and handed to `onFrame` as PNGs; the next frame
+  // waits for the returned promise
+  public async captureFrames(
+    options: FrameCaptureOptions,
+    onFrame: (frame: CapturedFrame) => void | Promise<void>
+  ): Promise<void> {
+    if (this.isUsingFallback()) throw new Error('Frame capture needs a WebGL context');
+    if (this.isCapturing) throw new Error('A frame capture is already running');
+    
+    const { width, height, fps = 60, startTime = 0, includeTexts = true, background = null } = options;
+    const frameCount = options.frameCount ?? Math.round(getCycleDuration(this.config.timeline) * fps);
+    const warmupFrames = Math.round(startTime * fps);
+    const deltaTime = 1 / fps;
+    
+    const wasRendering = this.isRendering;
+    this.stopRenderLoop();
+    this.isCapturing = true;
+    this.emitRenderStateChange(wasRendering, 'capture');
+    
+    // Captures always use the best lens quality, the tier in use is restored afterwards
+    const previousTier = this.qualityGovernor.getTier();
+    const previousPinnedTier = this.qualityGovernor.getPinnedTier();
+    this.qualityGovernor.pin(options.qualityTier ?? 'ultra');
+    
+    const originalAspect = this.cameraRig.getAspect();
+    this.cameraRig.setAspect(width / height);
+    this.postProcessing?.setSize(width, height, 1);
+    
+    const isSingleRenderer = this.blobRenderer === this.orbitRenderer;
+    const orbitTarget = createCaptureTarget(width, height);
+    const blobTarget = isSingleRenderer ? null : createCaptureTarget(width, height);
+    const orbitLayer = document.createElement('canvas');
+    const blobLayer = document.createElement('canvas');
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d')!;
+    
+    // The scene keeps its size relative to the container height, texts follow the same ratio
+    const textPixelScale = height / this.container.clientHeight;
+    const textImages = new Map<HTMLElement, HTMLImageElement>();
+    
+    try {
+      this.resetToStart();
+      
+      // Frames before startTime are stepped but not drawn, so smoothed values match playback
+      for (let frame = 0; frame < warmupFrames + frameCount; frame++) {
+        const time = frame * deltaTime;
+        // Clock time stays at `time` past the reset, like the first tick of the loop counts nothing
+        if (frame > 0) this.clock.step(deltaTime);
+        this.updateSystems(deltaTime, time);
+        if (frame < warmupFrames) continue;
+        
+        this.renderFrame(orbitTarget, blobTarget);
+        
+        context.clearRect(0, 0, width, height);
+        if (background) {
+          context.fillStyle = background;
+          context.fillRect(0, 0, width, height);
+        }
+        
+        readRenderTarget(this.orbitRenderer, orbitTarget, orbitLayer);
+        context.drawImage(orbitLayer, 0, 0);
+        
+        if (includeTexts) {
+          for (const text of [...this.orbit1.getTextCaptureStates(), ...this.orbit2.getTextCaptureStates()]) {
+            if (text.opacity <= 0 || text.scale <= 0) continue;
+            
+            let image = textImages.get(text.element);
+            if (!image) {
+              image = await rasterizeElement(text.element, textPixelScale);
+              textImages.set(text.element, image);
+            }
+            
+            const projected = text.position.clone().project(this.camera);
+            const x = (projected.x + 1) * 0.5 * width;
+            const y = (1 - projected.y) * 0.5 * height;
+            const drawWidth = image.width * text.scale;
+            const drawHeight = image.height * text.scale;
+            
+            context.globalAlpha = text.opacity;
+            context.drawImage(image, x - drawWidth / 2, y - drawHeight / 2, drawWidth, drawHeight);
+            context.globalAlpha = 1;
+          }
+        }
+        
+        if (blobTarget) {
+          readRenderTarget(this.blobRenderer, blobTarget, blobLayer);
+          context.drawImage(blobLayer, 0, 0);
+        }
+        
+        await onFrame({ index: frame - warmupFrames, time, blob: await canvasToPng(output) });
+      }
+    } finally {
+      orbitTarget.dispose();
+      blobTarget?.dispose();
+      
+      this.cameraRig.setAspect(originalAspect);
+      this.postProcessing?.setSize(this.container.clientWidth, this.container.clientHeight, this.getPixelRatio());
+      
+      this.qualityGovernor.pin(previousTier);
+      this.qualityGovernor.pin(previousPinnedTier);
+      
+      // Playback restarts from the beginning of the timeline
+      this.isCapturing = false;
+      this.resetToStart();
+      this.startRenderLoop();
+      this.emitRenderStateChange(false, 'capture');
+    }
+  }
+  
   public start(): void {
+    if (this.isFallbackOnly) return;
     this.resetAnimation();
     console.log('🚀 Orbit system started');
   }
   
   public pause(): void {
+    const wasRendering = this.isRendering;
     this.stopRenderLoop();
+    this.emitRenderStateChange(wasRendering, 'manual');
     console.log('⏸️ Orbit system paused');
   }
   
   public resume(): void {
     if (this.isInViewport && this.isPageVisible) {
+      const wasRendering = this.isRendering;
       this.startRenderLoop();
+      this.emitRenderStateChange(wasRendering, 'manual');
       console.log('▶️ Orbit system resumed');
     }
   }
   
+  public on<K extends keyof OrbitSystemEventMap>(
+    type: K,
+    listener: EventListener<OrbitSystemEventMap[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+  
+  public once<K extends keyof OrbitSystemEventMap>(
+    type: K,
+    listener: EventListener<OrbitSystemEventMap[K]>
+  ): () => void {
+    return this.events.once(type, listener);
+  }
+  
+  public off<K extends keyof OrbitSystemEventMap>(
+    type: K,
+    listener: EventListener<OrbitSystemEventMap[K]>
+  ): void {
+    this.events.off(type, listener);
+  }
+  
+  public getCurrentStage(): AnimationStage {
+    return this.currentGlobalStage;
+  }
+  
+  public setPlaybackMode(mode: OrbitPlaybackMode): void {
+    if (mode === this.config.playbackMode) return;
+    if (this.isFallbackOnly) {
+      this.config.playbackMode = mode;
+      return;
+    }
+    
+    // Carry the current position over so switching does not jump
+    const elapsed = this.getGlobalElapsed();
+    this.config.playbackMode = mode;
+    this.globalAnimationStartTime = this.clock.getElapsed() - elapsed;
+    
+    this.orbit1.setScrubbing(mode === 'scroll');
+    this.orbit2.setScrubbing(mode === 'scroll');
+  }
+  
+  public setReducedMotion(enabled: boolean): void {
+    if (enabled === this.reducedMotion || this.isFallbackOnly) return;
+    this.reducedMotion = enabled;
+    
+    this.stopRenderLoop();
+    if (!enabled) {
+      this.resetAnimation();
+    }
+    this.startRenderLoop();
+  }
+  
+  // Shared by every system: pause(), setTimeScale() and step() apply to all of them. The render
+  // loop keeps drawing while the clock is paused, so stepped frames show up
+  public getClock(): AnimationClock {
+    return this.clock;
+  }
+  
+  // Turn pointer following on or off, the lens glides back to the center when off
+  public setLensFollowsPointer(enabled: boolean): void {
+    this.config.lensCursorFollowPointer = enabled;
+    if (this.isFallbackOnly) return;
+    
+    this.animatedParticleSystem.updateOptions({ lensCursorFollowPointer: enabled });
+    this.updateTransmissionUnderlay();
+  }
+  
+  // Bloom, exposure, grid and background values; anything else in `settings` is ignored. Kept while
+  // post-processing is off and used once it is on
+  public updatePostProcessing(settings: Partial<ParticleSystemSettings>): void {
+    this.postProcessingSettings = { ...this.postProcessingSettings, ...pickPostProcessingSettings(settings) };
+    this.postProcessing?.updateSettings(this.postProcessingSettings);
+    if (this.postProcessing) this.applyOrbitLayerSettings();
+    
+    // No loop will draw the new values
+    if (this.reducedMotion && this.isInViewport && !this.isFallbackOnly) {
+      this.renderFrame();
+    }
+  }
+  
+  public isPostProcessingEnabled(): boolean {
+    return this.postProcessing !== null;
+  }
+  
+  public getPostProcessingSettings(): PostProcessingSettings {
+    return { ...this.postProcessingSettings };
+  }
+  
+  // Particle settings, e.g. ParticleConfigManager.applyPreset('showcase'), for the particles and
+  // the post-processing chain together
+  public applyParticleSettings(settings: Partial<ParticleSystemSettings>): void {
+    if (this.isFallbackOnly) return;
+    this.animatedParticleSystem.getParticleSystem().updateSettings(settings);
+    this.updatePostProcessing(settings);
+  }
+  
+  public isReducedMotion(): boolean {
+    return this.reducedMotion;
+  }
+  
+  // Pin a quality tier, or pass null to let the governor adapt again
+  public pinQualityTier(tier: QualityTier | null): void {
+    this.qualityGovernor.pin(tier);
+  }
+  
+  public getQualityTier(): QualityTier {
+    return this.qualityGovernor.getTier();
+  }
+  
+  public getPlaybackMode(): OrbitPlaybackMode {
+    return this.config.playbackMode;
+  }
+  
   public dispose(): void {
     // Stop render loop
     this.stopRenderLoop();
@@ -547,19 +1380,37 @@ export class OrbitSystemManager {
       this.showCardsTimeout = null;
     }
     
+    this.textFadeInTimer?.cancel();
+    
     // Clear resize timeout
     if (this.resizeTimeout) {
       clearTimeout(this.resizeTimeout);
     }
     
+    // Remove context loss listeners and subscribers
+    for (const [canvas, type, handler] of this.contextListeners) {
+      canvas.removeEventListener(type, handler);
+    }
+    this.contextListeners = [];
+    for (const [type, handler] of this.pointerListeners) {
+      this.config.pointerTarget.removeEventListener(type, handler as (event: Event) => void);
+    }
+    this.pointerListeners = [];
+    this.textList?.dispose();
+    this.events.removeAllListeners();
+    this.unsubscribeReducedMotion?.();
+    
+    // Nothing else was created without WebGL
+    if (this.isFallbackOnly) return;
+    
     // Dispose Three.js objects
     this.animatedParticleSystem.dispose();
     this.orbit1.dispose();
     this.orbit2.dispose();
     
     // Dispose renderers
-    this.orbitRenderer.dispose();
-    this.blobRenderer.dispose();
+    this.disposeRenderers();
+    this.cameraRig.dispose();
     
     console.log('🧹 Orbit system cleaned up');
   }
@@ -577,10 +1428,36 @@ export class OrbitSystemManager {
     return this.animatedParticleSystem;
   }
   
-  public getCamera(): THREE.PerspectiveCamera {
+  public getTimeline(): StageTimeline {
+    return this.config.timeline;
+  }
+  
+  public getCamera(): RigCamera {
     return this.camera;
   }
   
+  // Type, preset, position, target and orbit controls. Placement changes ease over `duration`
+  // seconds, by default the timeline's transition duration
+  public updateCamera(
+    settings: Partial<CameraSettings>,
+    duration: number = this.config.timeline.transitionDuration
+  ): void {
+    if (this.isFallbackOnly) return;
+    
+    this.cameraRig.updateSettings(settings, this.reducedMotion ? 0 : duration);
+    
+    if (this.cameraRig.getCamera() !== this.camera) {
+      this.camera = this.cameraRig.getCamera();
+      this.orbit1.setCamera(this.camera);
+      this.orbit2.setCamera(this.camera);
+    }
+    this.renderStill();
+  }
+  
+  public getCameraSettings(): CameraSettings {
+    return this.cameraRig.getSettings();
+  }
+  
   public isCurrentlyRendering(): boolean {
     return this.isRendering;
   }
@@ -592,4 +1469,8 @@ export class OrbitSystemManager {
   public getIsPageVisible(): boolean {
     return this.isPageVisible;
   }
+  
+  public isUsingFallback(): boolean {
+    return this.isFallbackOnly || this.lostContexts.size > 0;
+  }
 }
@@ -11,16 +11,27 @@ import {
   InstancedMesh,
   Object3D,
   Matrix4,
+  Plane,
+  Ray,
+  Raycaster,
 } from "three";
-
-export type AnimationStage =
-  | "idle"
-  | "stage1"
-  | "stage2"
-  | "stage3"
-  | "stage4"
-  | "completed"
-  | "returning";
+import {
+  DEFAULT_STAGE_TIMELINE,
+  getFirstStage,
+  getLastStage,
+  getStageValues,
+  getTextHideStages,
+  isStageReached,
+  sampleTimeline,
+  type AnimationStage,
+  type StageTimeline,
+} from "./animation/stage-timeline";
+import {
+  onReducedMotionChange,
+  prefersReducedMotion,
+} from "@/utils/reduced-motion";
+import type { CaptureTextState } from "./capture/frame-capture";
+import { AnimationClock, type ClockTimer } from "./animation/animation-clock";
 
 export interface OrbitingTextItem {
   text1: string;
@@ -28,6 +39,33 @@ export interface OrbitingTextItem {
   icon?: string; // Since we can't use React nodes, we'll use strings for now
 }
 
+// Lens circle in container pixels, texts under it are magnified around its center
+export interface LensFocus {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Text magnification at the lens center, fading to none at its edge
+const LENS_TEXT_MAGNIFICATION = 1.35;
+
+// Spheres are a few pixels wide, the pointer counts as over one within this world distance
+const SPHERE_HIT_RADIUS = 0.12;
+const HOVERED_SPHERE_SCALE = 3;
+
+// Sphere or label under the pointer. Sphere hits carry the label closest to them on screen
+export interface OrbitHit {
+  target: "sphere" | "text";
+  sphereIndex: number; // -1 for labels
+  textIndex: number; // -1 when the orbit has no labels
+  item: OrbitingTextItem | null;
+}
+
+export const isSameOrbitHit = (a: OrbitHit | null, b: OrbitHit | null): boolean =>
+  a?.target === b?.target &&
+  a?.sphereIndex === b?.sphereIndex &&
+  a?.textIndex === b?.textIndex;
+
 export interface OrbitingSpheresConfig {
   sphereCount?: number;
   orbitRadius?: number;
@@ -47,23 +85,13 @@ export interface OrbitingSpheresConfig {
 
   // Animation controls
   isAnimating?: boolean;
-  stage1Duration?: number;
-  stage2Duration?: number;
-  stage3Duration?: number;
-  stage4Duration?: number;
-  stage1Radius?: number;
-  stage2Radius?: number;
-  stage3Radius?: number;
-  stage4Radius?: number;
-  finalRadius?: number;
-  initialRadius?: number;
-  returnDelay?: number;
-  returnDuration?: number;
-  autoLoop?: boolean;
+  timeline?: StageTimeline;
+  orbitId?: string; // key of this orbit in the timeline's orbitRadii and hideTexts
+  initialRadius?: number; // fallback when the timeline has no radius for orbitId
+  clock?: AnimationClock; // shared with the other systems, drives the standalone loop and text fade delays
 
   // Text animation controls
   hideTextsOnStage?: AnimationStage;
-  hideTextsByStage?: { [textIndex: number]: AnimationStage };
   textFadeDuration?: number;
   textFadeInDuration?: number;
   textFadeOutDuration?: number;
@@ -80,6 +108,7 @@ export interface OrbitingSpheresConfig {
   onStageChange?: (stage: AnimationStage) => void;
   onAnimationComplete?: () => void;
   onReset?: () => void;
+  onTextFade?: (textIndex: number, visible: boolean) => void;
 }
 
 export class OrbitingSpheres {
@@ -119,16 +148,17 @@ export class OrbitingSpheres {
   private isInViewport: boolean = false;
   private isPageVisible: boolean = true;
   private isRendering: boolean = false;
-  private lastTime: number = 0;
+  private reducedMotion: boolean = prefersReducedMotion();
+  private unsubscribeReducedMotion: (() => void) | null = null;
   private config: Required<
     Omit<
       OrbitingSpheresConfig,
       | "textItems"
       | "hideTextsOnStage"
-      | "hideTextsByStage"
       | "onStageChange"
       | "onAnimationComplete"
       | "onReset"
+      | "onTextFade"
       | "canvas"
       | "container"
       | "pixelRatio"
@@ -136,10 +166,10 @@ export class OrbitingSpheres {
   > & {
     textItems: OrbitingTextItem[];
     hideTextsOnStage?: AnimationStage;
-    hideTextsByStage?: { [textIndex: number]: AnimationStage };
     onStageChange?: (stage: AnimationStage) => void;
     onAnimationComplete?: () => void;
     onReset?: () => void;
+    onTextFade?: (textIndex: number, visible: boolean) => void;
     canvas?: HTMLCanvasElement;
     container?: HTMLElement;
     pixelRatio?: number;
@@ -157,6 +187,17 @@ export class OrbitingSpheres {
   private currentAnimatedRadius: number;
   private loopCount: number = 0;
   private isUsingGlobalTiming: boolean = false;
+  private localElapsed: number = 0;
+  private radiusMultiplier: number = 1;
+
+  // When scrubbing, stages can move backwards and text visibility follows stage order
+  private isScrubbing: boolean = false;
+
+  // Text index -> stage where that text fades out, derived from the timeline
+  private hideTextsByStage: Record<number, AnimationStage> = {};
+
+  // textFadeInDuration replaced by fadeInTexts(), restored by the timer
+  private fadeInDurationOverride: { original: number; timer: ClockTimer } | null = null;
 
   // Text animation state
   private textOpacity: number = 1;
@@ -179,12 +220,17 @@ export class OrbitingSpheres {
   }> = [];
   private smoothingFactor: number = 0.15; // Smoothing independent of framerate
 
-  // Timers for auto-loop
-  private returnTimeout: number | null = null;
-
   // Flag para controlar inicialização das posições dos textos
   private isTextPositionInitialized: boolean = false;
 
+  private lensFocus: LensFocus | null = null;
+
+  // Hovered sphere or label, it is highlighted and the orbit stops rotating
+  private hovered: OrbitHit | null = null;
+  private _localRay = new Ray();
+  private _inverseMatrix = new Matrix4();
+  private _orbitPlane = new Plane(new Vector3(0, 0, 1), 0);
+
   // Performance optimization methods
   private cacheContainerDimensions(): void {
     if (!this.cachedOrbitSystemContainer) {
@@ -325,7 +371,17 @@ export class OrbitingSpheres {
     // 2. Page Visibility API - Pausa quando aba fica inativa
     this.setupPageVisibility();
 
-    // 3. RequestAnimationFrame com controle
+    // 3. prefers-reduced-motion, followed live
+    this.unsubscribeReducedMotion = onReducedMotionChange((reduced) => {
+      this.reducedMotion = reduced;
+      this.stopRenderLoop();
+      if (!reduced) {
+        this.resetAnimation();
+      }
+      this.startRenderLoop();
+    });
+
+    // 4. RequestAnimationFrame com controle
     this.startRenderLoop();
   }
 
@@ -373,8 +429,17 @@ export class OrbitingSpheres {
   private startRenderLoop(): void {
     if (this.isRendering || !this.isInViewport || !this.isPageVisible) return;
 
+    // Reduced motion draws the last stage once instead of looping
+    if (this.reducedMotion) {
+      this.setStaticFrame(getLastStage(this.config.timeline));
+      if (this.renderer && this.scene && this.camera) {
+        this.renderer.render(this.scene, this.camera);
+      }
+      return;
+    }
+
     this.isRendering = true;
-    this.lastTime = performance.now();
+    this.config.clock.resync();
     this.renderLoop();
   }
 
@@ -392,12 +457,11 @@ export class OrbitingSpheres {
       return;
     }
 
-    const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastTime) / 1000;
-    this.lastTime = currentTime;
+    const previousTime = this.config.clock.getElapsed();
+    this.config.clock.tick();
 
     // Update animation
-    this.update(deltaTime);
+    this.update(this.config.clock.getElapsed() - previousTime);
 
     // Render frame
     if (this.renderer && this.scene && this.camera) {
@@ -430,24 +494,15 @@ export class OrbitingSpheres {
       textSize: 16,
       textOffset: 0.2,
       isAnimating: true,
-      stage1Duration: 2,
-      stage2Duration: 2,
-      stage3Duration: 2,
-      stage4Duration: 2,
-      stage1Radius: 2,
-      stage2Radius: 4,
-      stage3Radius: 6,
-      stage4Radius: 8,
-      finalRadius: 3,
+      timeline: DEFAULT_STAGE_TIMELINE,
+      orbitId: "orbit1",
       initialRadius: 3,
-      returnDelay: 1000,
-      returnDuration: 2,
-      autoLoop: true,
       textFadeDuration: 0.5,
       textFadeInDuration: 0.2,
       textFadeOutDuration: 0.3,
       responsiveScale: 1.0,
       pixelRatio: Math.min(window.devicePixelRatio, 2),
+      clock: new AnimationClock(),
       ...config,
     };
 
@@ -458,17 +513,16 @@ export class OrbitingSpheres {
 
     // Apply responsiveScale to relevant values only if mobile
     if (isMobile) {
-      this.config.initialRadius *= responsiveScale;
+      this.radiusMultiplier = responsiveScale;
       this.config.sphereSize *= responsiveScale;
-      this.config.stage1Radius *= responsiveScale;
-      this.config.stage2Radius *= responsiveScale;
-      this.config.stage3Radius *= responsiveScale;
-      this.config.stage4Radius *= responsiveScale;
-      this.config.finalRadius *= responsiveScale;
     }
 
-    this.targetRadius = this.config.initialRadius;
-    this.currentAnimatedRadius = this.config.initialRadius;
+    this.hideTextsByStage = getTextHideStages(
+      this.config.timeline,
+      this.config.orbitId
+    );
+    this.targetRadius = this.getRadiusForStage("idle");
+    this.currentAnimatedRadius = this.targetRadius;
 
     this.group = new Group();
     this.group.rotation.z = this.config.rotationOffset;
@@ -679,11 +733,13 @@ export class OrbitingSpheres {
       const screenPosition = this.worldToScreen(textState.position);
 
       if (this.isValidScreenPosition(screenPosition)) {
+        const magnification = this.applyLensFocus(screenPosition);
+
         // Use translate3d for GPU acceleration - smoother rendering
         // No rounding to avoid micro-stutters
         element.style.left = `${screenPosition.x}px`;
         element.style.top = `${screenPosition.y}px`;
-        element.style.transform = `translate3d(-50%, -50%, 0) scale(${textState.scale})`;
+        element.style.transform = `translate3d(-50%, -50%, 0) scale(${textState.scale * magnification})`;
         element.style.opacity = textState.opacity.toString();
       } else {
         element.style.opacity = "0";
@@ -691,6 +747,22 @@ export class OrbitingSpheres {
     }
   }
 
+  // Pushes a point under the lens away from its center like a magnifier would, returns the
+  // magnification so the text can scale along
+  private applyLensFocus(screenPosition: { x: number; y: number }): number {
+    if (!this.lensFocus || this.lensFocus.radius <= 0) return 1;
+
+    const { x, y, radius } = this.lensFocus;
+    const distance = Math.hypot(screenPosition.x - x, screenPosition.y - y);
+    if (distance >= radius) return 1;
+
+    const falloff = 1 - (distance / radius) ** 2;
+    const magnification = 1 + (LENS_TEXT_MAGNIFICATION - 1) * falloff;
+    screenPosition.x = x + (screenPosition.x - x) * magnification;
+    screenPosition.y = y + (screenPosition.y - y) * magnification;
+    return magnification;
+  }
+
   private updateSpherePositions(): void {
     if (!this.instancedMesh) return;
 
@@ -711,6 +783,9 @@ export class OrbitingSpheres {
 
       // Use dummy object to calculate matrix
       this.dummy.position.set(x, y, 0);
+      this.dummy.scale.setScalar(
+        this.hovered?.sphereIndex === i ? HOVERED_SPHERE_SCALE : 1
+      );
       this.dummy.updateMatrix();
 
       // Set matrix for this instance
@@ -775,17 +850,51 @@ export class OrbitingSpheres {
 
   public startAnimation(): void {
     if (!this.isUsingGlobalTiming && this.currentStage === "idle") {
-      this.currentStage = "stage1";
-      this.targetRadius = this.config.stage1Radius;
-      this.config.onStageChange?.("stage1");
+      this.localElapsed = 0;
+      this.handleTimeline(0);
     }
   }
 
   public initializeForGlobalTiming(): void {
     this.isUsingGlobalTiming = true;
     this.currentStage = "idle";
-    this.targetRadius = this.config.initialRadius;
-    this.currentAnimatedRadius = this.config.initialRadius;
+    this.targetRadius = this.getRadiusForStage("idle");
+    this.currentAnimatedRadius = this.targetRadius;
+  }
+
+  // Snap to a stage's layout with every text visible, used for reduced motion
+  public setStaticFrame(stage: AnimationStage): void {
+    this.currentStage = stage;
+    this.targetRadius = this.getRadiusForStage(stage);
+    this.currentAnimatedRadius = this.targetRadius;
+    this.group.rotation.z = this.config.rotationOffset;
+
+    this.isTextFadingOut = false;
+    this.isTextFadingIn = false;
+    this.hasTextsFaded = false;
+    this.textOpacity = 1;
+    this.textScale = 1;
+    for (let i = 0; i < this.textStates.length; i++) {
+      this.resetTextState(i);
+    }
+
+    this.updateSpherePositions();
+    this.resyncTextPositions();
+    this.updateTextElementsPosition();
+  }
+
+  // Back to the first frame with every text visible, so fixed-step replays are deterministic
+  public resetToStart(): void {
+    this.resetAnimation();
+    this.group.rotation.z = this.config.rotationOffset;
+    this.currentAnimatedRadius = this.targetRadius;
+
+    this.updateSpherePositions();
+    this.resyncTextPositions();
+  }
+
+  public setScrubbing(enabled: boolean): void {
+    this.isScrubbing = enabled;
   }
 
   public stopAnimation(): void {
@@ -798,21 +907,151 @@ export class OrbitingSpheres {
     const textCount = this.config.textItems.length;
     if (textCount > 0) {
       for (let i = 0; i < textCount; i++) {
+        // Texts already hidden by the scrubbed stage stay hidden
+        const hideStage = this.hideTextsByStage[i];
+        if (
+          this.isScrubbing &&
+          hideStage !== undefined &&
+          isStageReached(this.config.timeline, this.currentStage, hideStage)
+        ) {
+          continue;
+        }
+
         if (this.textStates[i]) {
           this.textStates[i].isFadingIn = true;
           this.textStates[i].hasFaded = false;
         }
       }
 
-      const originalDuration = this.config.textFadeInDuration;
+      // Overlapping calls restore the duration from before the first one
+      const originalDuration = this.fadeInDurationOverride?.original ?? this.config.textFadeInDuration;
+      this.fadeInDurationOverride?.timer.cancel();
       this.config.textFadeInDuration = duration;
 
-      setTimeout(() => {
+      const timer = this.config.clock.setTimeout(() => {
         this.config.textFadeInDuration = originalDuration;
-      }, duration * 1000);
+        this.fadeInDurationOverride = null;
+      }, duration);
+      this.fadeInDurationOverride = { original: originalDuration, timer };
     }
   }
 
+  // Label under the client position first, labels sit above the canvas, then the sphere nearest
+  // to where the ray crosses the orbit plane
+  public hitTest(
+    raycaster: Raycaster,
+    clientX: number,
+    clientY: number
+  ): OrbitHit | null {
+    if (!this.config.enabled) return null;
+
+    const textIndex = this.findTextAt(clientX, clientY);
+    if (textIndex !== -1) {
+      return {
+        target: "text",
+        sphereIndex: -1,
+        textIndex,
+        item: this.config.textItems[textIndex] ?? null,
+      };
+    }
+
+    const sphereIndex = this.findSphereOnRay(raycaster);
+    if (sphereIndex === -1) return null;
+
+    const nearestText = this.findNearestText(clientX, clientY);
+    return {
+      target: "sphere",
+      sphereIndex,
+      textIndex: nearestText,
+      item: this.config.textItems[nearestText] ?? null,
+    };
+  }
+
+  private findTextAt(clientX: number, clientY: number): number {
+    for (const [index, element] of this.textElements.entries()) {
+      if ((this.textStates[index]?.opacity ?? 0) < 0.5) continue;
+
+      const rect = element.getBoundingClientRect();
+      if (
+        clientX >= rect.left &&
+        clientX <= rect.right &&
+        clientY >= rect.top &&
+        clientY <= rect.bottom
+      ) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private findSphereOnRay(raycaster: Raycaster): number {
+    if (this.instanceCount === 0) return -1;
+
+    // Into the group's space, where the spheres lie on a circle around the origin at z = 0
+    this.group.updateMatrixWorld();
+    this._inverseMatrix.copy(this.group.matrixWorld).invert();
+    this._localRay.copy(raycaster.ray).applyMatrix4(this._inverseMatrix);
+    const point = this._localRay.intersectPlane(this._orbitPlane, this._tempVector);
+    if (!point) return -1;
+
+    // Spheres are evenly spaced, the angle gives the only candidate
+    const angle = Math.atan2(point.y, point.x);
+    const turn = (angle < 0 ? angle + Math.PI * 2 : angle) / (Math.PI * 2);
+    const index = Math.round(turn * this.instanceCount) % this.instanceCount;
+
+    const { cos, sin } = this.angleCache[index];
+    const distance = Math.hypot(
+      point.x - cos * this.currentAnimatedRadius,
+      point.y - sin * this.currentAnimatedRadius
+    );
+    return distance <= SPHERE_HIT_RADIUS ? index : -1;
+  }
+
+  private findNearestText(clientX: number, clientY: number): number {
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (const [index, element] of this.textElements.entries()) {
+      const rect = element.getBoundingClientRect();
+      const distance = Math.hypot(
+        clientX - (rect.left + rect.right) / 2,
+        clientY - (rect.top + rect.bottom) / 2
+      );
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // Highlights the hovered sphere or label and holds the orbit still, null releases it
+  public setHovered(hit: OrbitHit | null): void {
+    const previous = this.hovered;
+    if (isSameOrbitHit(previous, hit)) return;
+
+    if (previous?.target === "text") {
+      this.textElements[previous.textIndex]?.classList.remove("is-hovered");
+    }
+    if (hit?.target === "text") {
+      this.textElements[hit.textIndex]?.classList.add("is-hovered");
+    }
+
+    this.hovered = hit;
+    if (previous?.target === "sphere" || hit?.target === "sphere") {
+      this.needsMatrixUpdate = true;
+      this.updateSpherePositions();
+    }
+  }
+
+  public getHovered(): OrbitHit | null {
+    return this.hovered;
+  }
+
+  // Lens over the texts, or null when the lens doesn't move and leaves them alone
+  public setLensFocus(focus: LensFocus | null): void {
+    this.lensFocus = focus;
+  }
+
   public resyncTextPositions(): void {
     // Force dimensions cache update to ensure accurate positioning
     this.markDimensionsForUpdate();
@@ -831,16 +1070,11 @@ export class OrbitingSpheres {
 
   private resetAnimation(): void {
     this.currentStage = "idle";
-    this.targetRadius = this.config.initialRadius;
+    this.localElapsed = 0;
+    this.targetRadius = this.getRadiusForStage("idle");
     this.loopCount = 0;
     this.isTextPositionInitialized = false;
 
-    // Clear timeout if exists
-    if (this.returnTimeout) {
-      window.clearTimeout(this.returnTimeout);
-      this.returnTimeout = null;
-    }
-
     // Reset text states
     this.isTextFadingOut = false;
     this.isTextFadingIn = false;
@@ -863,8 +1097,10 @@ export class OrbitingSpheres {
   ): void {
     if (!this.config.enabled) return;
 
-    // Continue rotating the group
-    this.group.rotation.z += this.config.rotationSpeed * deltaTime;
+    // Continue rotating the group, unless the pointer rests on it
+    if (!this.hovered) {
+      this.group.rotation.z += this.config.rotationSpeed * deltaTime;
+    }
 
     // Handle global timing vs local timing
     if (
@@ -873,7 +1109,11 @@ export class OrbitingSpheres {
       globalStage !== undefined
     ) {
       // Use global timing system
-      this.handleGlobalTiming(globalElapsed, globalStage);
+      this.handleTimeline(globalElapsed, globalStage);
+    } else if (!this.isUsingGlobalTiming && this.currentStage !== "idle") {
+      // Local timing once startAnimation() kicked it off
+      this.localElapsed += deltaTime;
+      this.handleTimeline(this.localElapsed);
     }
 
     // Use target radius directly without pulse
@@ -893,7 +1133,7 @@ export class OrbitingSpheres {
     // Handle text fade IN animation (when loop restarts)
     if (
       this.hasTextsFaded &&
-      this.currentStage === "stage1" &&
+      this.currentStage === getFirstStage(this.config.timeline) &&
       this.config.isAnimating &&
       !this.isTextFadingIn &&
       !this.isTextFadingOut
@@ -929,9 +1169,9 @@ export class OrbitingSpheres {
     }
 
     // Handle individual text fade logic
-    if (this.config.hideTextsByStage && this.config.textItems.length > 0) {
+    if (this.config.textItems.length > 0) {
       for (const [textIndexStr, stage] of Object.entries(
-        this.config.hideTextsByStage
+        this.hideTextsByStage
       )) {
         const textIndex = Number.parseInt(textIndexStr, 10);
         if (
@@ -941,25 +1181,31 @@ export class OrbitingSpheres {
         ) {
           const textState = this.textStates[textIndex];
 
+          const isHideStage = this.isScrubbing
+            ? isStageReached(this.config.timeline, this.currentStage, stage)
+            : this.currentStage === stage;
+
           // Handle fade OUT for this specific text
-          if (
-            this.currentStage === stage &&
-            !textState.hasFaded &&
-            !textState.isFadingOut
-          ) {
+          if (isHideStage && !textState.hasFaded && !textState.isFadingOut) {
             textState.isFadingOut = true;
+            textState.isFadingIn = false;
             textState.hasFaded = true;
           }
 
-          // Handle fade IN for this specific text when loop restarts
+          // Handle fade IN for this specific text when loop restarts,
+          // or when scrubbing back before its hide stage
+          const isShowStage = this.isScrubbing
+            ? !isHideStage
+            : this.currentStage === getFirstStage(this.config.timeline);
           if (
             textState.hasFaded &&
-            this.currentStage === "stage1" &&
+            isShowStage &&
             this.config.isAnimating &&
             !textState.isFadingIn &&
-            !textState.isFadingOut
+            (this.isScrubbing || !textState.isFadingOut)
           ) {
             textState.position = textState.originalPosition.clone();
+            textState.isFadingOut = false;
             textState.isFadingIn = true;
             textState.hasFaded = false;
           }
@@ -984,6 +1230,7 @@ export class OrbitingSpheres {
 
             if (isComplete) {
               textState.isFadingOut = false;
+              this.config.onTextFade?.(textIndex, false);
             }
           }
 
@@ -1001,6 +1248,7 @@ export class OrbitingSpheres {
 
             if (isComplete) {
               textState.isFadingIn = false;
+              this.config.onTextFade?.(textIndex, true);
             }
           }
         }
@@ -1046,6 +1294,34 @@ export class OrbitingSpheres {
     return this.loopCount;
   }
 
+  // Texts in world space with their fade state, for rasterizing them at another resolution
+  public getTextCaptureStates(): CaptureTextState[] {
+    if (!this.config.showTexts || !this.isTextPositionInitialized) return [];
+
+    this.group.updateMatrixWorld();
+    return this.textElements.flatMap((element, i) => {
+      const textState = this.textStates[i];
+      if (!textState) return [];
+
+      return [
+        {
+          element,
+          position: textState.position.clone().applyMatrix4(this.group.matrixWorld),
+          opacity: textState.opacity,
+          scale: textState.scale,
+        },
+      ];
+    });
+  }
+
+  public getConfig(): Readonly<OrbitingSpheresConfig> {
+    return { ...this.config };
+  }
+
+  public getOrbitId(): string {
+    return this.config.orbitId;
+  }
+
   public setCamera(camera: Camera): void {
     this.camera = camera;
   }
@@ -1066,17 +1342,21 @@ export class OrbitingSpheres {
       this.initializeTextStates();
       this.initializeTextElements();
     }
+
+    if (newConfig.timeline !== undefined || newConfig.orbitId !== undefined) {
+      this.hideTextsByStage = getTextHideStages(
+        this.config.timeline,
+        this.config.orbitId
+      );
+      this.targetRadius = this.getRadiusForStage(this.currentStage);
+    }
   }
 
   public dispose(): void {
     // Stop rendering loop
     this.stopRenderLoop();
-
-    // Clear timeout if exists
-    if (this.returnTimeout) {
-      window.clearTimeout(this.returnTimeout);
-      this.returnTimeout = null;
-    }
+    this.unsubscribeReducedMotion?.();
+    this.fadeInDurationOverride?.timer.cancel();
 
     // Clear text elements
     this.clearTextElements();
@@ -1127,55 +1407,54 @@ export class OrbitingSpheres {
     return this.scene;
   }
 
-  private handleGlobalTiming(
-    _globalElapsed: number,
-    globalStage: AnimationStage
+  private handleTimeline(
+    elapsed: number,
+    stageOverride?: AnimationStage
   ): void {
+    const sample = sampleTimeline(this.config.timeline, elapsed);
+    const stage = stageOverride ?? sample.stage;
+
     // Update current stage if it changed
-    if (this.currentStage !== globalStage) {
+    if (this.currentStage !== stage) {
       const previousStage = this.currentStage;
-      this.currentStage = globalStage;
-
-      // Update target radius based on new stage
-      this.targetRadius = this.getTargetRadiusForStage(globalStage);
+      this.currentStage = stage;
 
       // Notify of stage change
-      if (previousStage !== globalStage) {
-        this.config.onStageChange?.(globalStage);
-
-        // Track loop count when returning to stage1
-        if (globalStage === "stage1" && previousStage === "returning") {
-          this.loopCount += 1;
-          // Reset rotation to initial value when loop restarts
-          this.group.rotation.z = this.config.rotationOffset;
-        }
+      this.config.onStageChange?.(stage);
 
-        // Notify animation complete when reaching completed stage
-        if (globalStage === "completed") {
-          this.config.onAnimationComplete?.();
-        }
+      // Track loop count when returning to the first stage
+      if (
+        stage === getFirstStage(this.config.timeline) &&
+        previousStage === "returning"
+      ) {
+        this.loopCount += 1;
+        // Reset rotation to initial value when loop restarts
+        this.group.rotation.z = this.config.rotationOffset;
+      }
+
+      // Notify animation complete when reaching completed stage
+      if (stage === "completed") {
+        this.config.onAnimationComplete?.();
       }
     }
+
+    // Eased radius from the timeline, idle holds the initial layout
+    const radius = sample.orbitRadii[this.config.orbitId];
+    this.targetRadius =
+      stage === "idle" || radius === undefined
+        ? this.getRadiusForStage(stage)
+        : radius * this.radiusMultiplier;
   }
 
-  private getTargetRadiusForStage(stage: AnimationStage): number {
-    switch (stage) {
-      case "idle":
-        return this.config.initialRadius;
-      case "stage1":
-        return this.config.stage1Radius;
-      case "stage2":
-        return this.config.stage2Radius;
-      case "stage3":
-        return this.config.stage3Radius;
-      case "stage4":
-        return this.config.stage4Radius;
-      case "completed":
-        return this.config.finalRadius;
-      case "returning":
-        return this.config.initialRadius;
-      default:
-        return this.config.initialRadius;
-    }
+  private getRadiusForStage(stage: AnimationStage): number {
+    const values = getStageValues(this.config.timeline, stage);
+    return (
+      (values.orbitRadii[this.config.orbitId] ?? this.config.initialRadius) *
+      this.radiusMultiplier
+    );
+  }
+
+  public getTimeline(): StageTimeline {
+    return this.config.timeline;
   }
 }
@@ -1,73 +1,336 @@
-import { Group, Vector3 } from 'three';
+import {
+  Group,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Matrix4,
+  SphereGeometry,
+  Vector3
+} from 'three';
 import { Particle } from './particle';
-import { generateParticlePositions, type ParticlePosition } from './math/geometry-positions';
+import { InstancedParticleMaterial } from './materials/instanced-particle-material';
+import {
+  generateParticlePositions,
+  type ArrangementParamValues,
+  type ParticlePosition
+} from '@/utils/particle-arrangements/geometry-positions';
+import { findNearestPoint, matchNearestPoints } from './math/point-matching';
+import {
+  isAnimationActive,
+  isEnterAnimation,
+  type ParticleAnimationFrame
+} from './animation/particle-animations';
 import type { ParticleSystemSettings, ArrangementType } from './config';
 
+// Shape shown instead of the configured arrangement
+export interface MorphShape {
+  arrangement: ArrangementType;
+  params: ArrangementParamValues;
+}
+
+// Running arrangement transition or morph. Particles up to keepCount end on a target, spawned
+// ones among them fade and scale in, the ones past it fade and scale out and are removed at the end
+interface ParticleTransition {
+  from: Vector3[];
+  to: Vector3[];
+  fromFade: number[]; // scale and opacity multiplier at the start
+  fade: number[]; // current multiplier, the start of the next transition if this one is interrupted
+  keepCount: number;
+  elapsed: number;
+  duration: number;
+}
+
 export class ParticleSystem {
   private group: Group;
   private particles: Particle[] = [];
   private settings: ParticleSystemSettings;
   private currentArrangementType: ArrangementType;
 
-  // Transition state management
-  private isTransitioning: boolean = false;
-  private transitionStartTime: number = 0;
-  private transitionDuration: number = 1.5; // seconds
-  private previousPositions: ParticlePosition[] = [];
+  // Single InstancedMesh draws every particle in one call, per-instance
+  // color lives in instanceColor and opacity/scale in custom attributes
+  private instancedMesh: InstancedMesh | null = null;
+  private opacityAttribute: InstancedBufferAttribute | null = null;
+  private scaleAttribute: InstancedBufferAttribute | null = null;
+  private _tempMatrix = new Matrix4();
+
+  // Arrangement transitions and stage morphs
+  private morphShape: MorphShape | null = null;
+  private transition: ParticleTransition | null = null;
+  private _transitionPosition = new Vector3();
+  private transitionMoved: boolean = false; // positions changed since the last instance sync
+
+  // Per-particle animation state
+  private animationTime: number = 0;
+  private hasAnimatedFrame: boolean = false;
+  private animationFrame: ParticleAnimationFrame;
 
   constructor(settings: ParticleSystemSettings) {
     this.settings = { ...settings };
     this.currentArrangementType = settings.arrangementType;
     this.group = new Group();
+    this.animationFrame = {
+      type: 'none',
+      time: 0,
+      count: 0,
+      radius: 1,
+      intensity: 0,
+      amplitude: 0,
+      phase: 0,
+      direction: 'clockwise'
+    };
 
     this.initializeParticles();
   }
 
-  private initializeParticles(): void {
-    // Clear existing particles
-    this.clearParticles();
-
+  private getEffectiveRadius(): number {
     // Detect if mobile internally and apply responsiveScale only if mobile
     const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
     const responsiveScale = this.settings.responsiveScale ?? 1.0;
     const effectiveScale = isMobile ? responsiveScale : 1.0;
+    return this.settings.radius * effectiveScale;
+  }
 
-    // Generate particle positions with scale applied
-    const particlePositions = generateParticlePositions(this.settings.arrangementType, {
+  // Enter animations always play once, continuous and loop ones need continuousAnimation
+  private shouldAnimate(): boolean {
+    const { animationType, continuousAnimation } = this.settings;
+    if (animationType === 'none') return false;
+    return continuousAnimation || isEnterAnimation(animationType);
+  }
+
+  public restartAnimation(): void {
+    this.animationTime = 0;
+  }
+
+  // Positions of the current arrangement, or of the morph shape, from the registry with scale applied
+  private generatePositions(): ParticlePosition[] {
+    return generateParticlePositions(this.morphShape?.arrangement ?? this.settings.arrangementType, {
+      ...this.settings.arrangementParams,
       particleCount: this.settings.particleCount,
-      radius: this.settings.radius * effectiveScale,
+      radius: this.getEffectiveRadius(),
       numLines: this.settings.numLines,
       particlesPerLine: this.settings.particlesPerLine,
       numRings: this.settings.numRings,
       maxParticlesPerRing: this.settings.maxParticlesPerRing,
-      spiralTurns: this.settings.spiralTurns
+      spiralTurns: this.settings.spiralTurns,
+      ...this.morphShape?.params
     });
+  }
+
+  private initializeParticles(): void {
+    // Clear existing particles
+    this.clearParticles();
+    this.transition = null;
+
+    // Generate particle positions with scale applied
+    const particlePositions = this.generatePositions();
 
     // Create particles
     for (const particlePos of particlePositions) {
       const particle = new Particle({
         position: particlePos.position,
-        size: this.settings.particleSize,
         index: particlePos.index,
         color: this.settings.particleColor
       });
 
       this.particles.push(particle);
-      this.group.add(particle.getMesh());
     }
 
-    // Store positions for potential transitions
-    this.previousPositions = [...particlePositions];
+    this.createInstancedMesh();
   }
 
-  private clearParticles(): void {
-    for (const particle of this.particles) {
-      this.group.remove(particle.getMesh());
-      particle.dispose();
+  private createInstancedMesh(): void {
+    const count = this.particles.length;
+    if (count === 0) return;
+
+    // Lower tessellation keeps vertex count reasonable for dense clouds
+    const segments = count > 1000 ? 8 : 16;
+    const geometry = new SphereGeometry(this.settings.particleSize, segments, segments);
+
+    this.opacityAttribute = new InstancedBufferAttribute(new Float32Array(count).fill(1), 1);
+    this.scaleAttribute = new InstancedBufferAttribute(new Float32Array(count).fill(1), 1);
+    geometry.setAttribute('instanceOpacity', this.opacityAttribute);
+    geometry.setAttribute('instanceScale', this.scaleAttribute);
+
+    this.instancedMesh = new InstancedMesh(geometry, new InstancedParticleMaterial(), count);
+    // Animations move instances beyond the geometry bounds
+    this.instancedMesh.frustumCulled = false;
+
+    for (let i = 0; i < count; i++) {
+      this.instancedMesh.setColorAt(i, this.particles[i].getColor());
+    }
+
+    this.group.add(this.instancedMesh);
+    this.syncInstances();
+  }
+
+  // Copy particle state into the instance buffers
+  private syncInstances(): void {
+    if (!this.instancedMesh || !this.opacityAttribute || !this.scaleAttribute) return;
+
+    for (let i = 0; i < this.particles.length; i++) {
+      const particle = this.particles[i];
+      const position = particle.getPosition();
+      this._tempMatrix.makeTranslation(position.x, position.y, position.z);
+      this.instancedMesh.setMatrixAt(i, this._tempMatrix);
+      this.opacityAttribute.setX(i, particle.getOpacity());
+      this.scaleAttribute.setX(i, particle.getScale());
     }
+
+    this.instancedMesh.instanceMatrix.needsUpdate = true;
+    this.opacityAttribute.needsUpdate = true;
+    this.scaleAttribute.needsUpdate = true;
+  }
+
+  private clearParticles(): void {
+    this.disposeInstancedMesh();
     this.particles = [];
   }
 
+  private disposeInstancedMesh(): void {
+    if (this.instancedMesh) {
+      this.group.remove(this.instancedMesh);
+      this.instancedMesh.geometry.dispose();
+      if (this.instancedMesh.material && 'dispose' in this.instancedMesh.material) {
+        this.instancedMesh.material.dispose();
+      }
+      this.instancedMesh.dispose();
+      this.instancedMesh = null;
+    }
+    this.opacityAttribute = null;
+    this.scaleAttribute = null;
+  }
+
+  // Instance buffers sized for the current particles
+  private rebuildInstancedMesh(): void {
+    this.disposeInstancedMesh();
+    this.createInstancedMesh();
+  }
+
+  // Morphs into `arrangement` with `params` over `duration` seconds, null goes back to the
+  // configured arrangement. A duration of 0 snaps
+  public morphTo(
+    arrangement: ArrangementType | null,
+    params: ArrangementParamValues = {},
+    duration: number = this.settings.transitionDuration
+  ): void {
+    const shape = arrangement === null ? null : { arrangement, params };
+    if (JSON.stringify(shape) === JSON.stringify(this.morphShape)) {
+      if (duration <= 0 && this.transition) this.finishTransition();
+      return;
+    }
+
+    this.morphShape = shape;
+    this.startTransition(this.generatePositions(), duration);
+  }
+
+  public getMorphShape(): MorphShape | null {
+    return this.morphShape;
+  }
+
+  // Moves the particles onto `targets` over `duration` seconds, 0 snaps. Each target takes the
+  // nearest particle, targets left over spawn a particle on the closest existing one and fade in,
+  // particles left over converge on their closest target while fading out. Nothing pops whatever
+  // the counts
+  private startTransition(targets: ParticlePosition[], duration: number): void {
+    const previousFade = new Map(
+      this.particles.map((particle, i) => [particle, this.transition?.fade[i] ?? 1])
+    );
+    const sources = this.particles.map((particle) => particle.getBasePosition().clone());
+    const targetPoints = targets.map((target) => target.position);
+    const matches = matchNearestPoints(sources, targetPoints);
+
+    const particles: Particle[] = [];
+    const transition: ParticleTransition = {
+      from: [],
+      to: [],
+      fromFade: [],
+      fade: [],
+      keepCount: targets.length,
+      elapsed: 0,
+      duration
+    };
+
+    for (const [i, target] of targetPoints.entries()) {
+      const sourceIndex = matches[i];
+      if (sourceIndex !== -1) {
+        const particle = this.particles[sourceIndex];
+        particles.push(particle);
+        transition.from.push(sources[sourceIndex]);
+        transition.fromFade.push(previousFade.get(particle) ?? 1);
+      } else {
+        const nearest = findNearestPoint(sources, target);
+        const from = nearest === -1 ? target.clone() : sources[nearest].clone();
+        particles.push(new Particle({ position: from, index: i, color: this.settings.particleColor }));
+        transition.from.push(from);
+        transition.fromFade.push(0);
+      }
+      transition.to.push(target.clone());
+    }
+
+    const matched = new Set(matches);
+    for (const [sourceIndex, particle] of this.particles.entries()) {
+      if (matched.has(sourceIndex)) continue;
+
+      const nearest = findNearestPoint(targetPoints, sources[sourceIndex]);
+      particles.push(particle);
+      transition.from.push(sources[sourceIndex]);
+      transition.to.push(nearest === -1 ? sources[sourceIndex] : targetPoints[nearest].clone());
+      transition.fromFade.push(previousFade.get(particle) ?? 1);
+    }
+    transition.fade = [...transition.fromFade];
+
+    this.particles = particles;
+    this.transition = transition;
+    // Order and count changed, the instance colors follow the particles
+    this.rebuildInstancedMesh();
+
+    if (duration <= 0) {
+      this.finishTransition();
+    } else {
+      this.stepTransition(0);
+    }
+  }
+
+  private stepTransition(deltaTime: number): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    transition.elapsed += deltaTime;
+    const progress = Math.min(1, transition.elapsed / transition.duration);
+    if (progress >= 1) {
+      this.finishTransition();
+      return;
+    }
+
+    const eased = this.applyEasing(progress, this.settings.transitionEasing);
+    for (const [i, particle] of this.particles.entries()) {
+      this._transitionPosition.lerpVectors(transition.from[i], transition.to[i], eased);
+      particle.updatePosition(this._transitionPosition);
+
+      const fade = this.lerp(transition.fromFade[i], i < transition.keepCount ? 1 : 0, eased);
+      transition.fade[i] = fade;
+      particle.setScale(fade);
+      particle.setOpacity(fade);
+    }
+    this.transitionMoved = true;
+  }
+
+  private finishTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+    this.transition = null;
+
+    const removed = this.particles.length > transition.keepCount;
+    this.particles.length = Math.min(this.particles.length, transition.keepCount);
+    for (const [i, particle] of this.particles.entries()) {
+      particle.updatePosition(transition.to[i]);
+      particle.setScale(1);
+      particle.setOpacity(1);
+    }
+
+    this.transitionMoved = true;
+    if (removed) this.rebuildInstancedMesh();
+  }
+
   private lerp(a: number, b: number, t: number): number {
     return a + (b - a) * t;
   }
@@ -90,27 +353,23 @@ export class ParticleSystem {
     this.settings = { ...this.settings, ...newSettings };
 
     // Check if arrangement type changed and transitions are enabled
-    if (this.settings.arrangementTransitionsEnabled &&
-        oldArrangementType !== this.settings.arrangementType &&
-        this.particles.length > 0) {
-
-      // Store current positions as previous positions
-      this.previousPositions = this.particles.map((particle, index) => ({
-        position: particle.getMesh().position.clone(),
-        index: index
-      }));
-
-      // Start transition
-      this.isTransitioning = true;
-      this.transitionStartTime = Date.now();
-      this.transitionDuration = this.settings.transitionDuration;
+    const isTransitioning = this.settings.arrangementTransitionsEnabled &&
+      oldArrangementType !== this.settings.arrangementType &&
+      this.particles.length > 0;
+    if (isTransitioning) {
+      this.startTransition(this.generatePositions(), this.settings.transitionDuration);
     }
 
     // Update current arrangement type
     this.currentArrangementType = this.settings.arrangementType;
 
-    // If not transitioning, reinitialize immediately
-    if (!this.isTransitioning) {
+    // Replay the animation from the start when it is swapped or toggled
+    if (newSettings.animationType !== undefined || newSettings.continuousAnimation !== undefined) {
+      this.restartAnimation();
+    }
+
+    // If not transitioning, reinitialize immediately, a running transition or morph snaps to its end
+    if (!isTransitioning) {
       this.initializeParticles();
     }
   }
@@ -118,49 +377,8 @@ export class ParticleSystem {
   public update(deltaTime: number): void {
     if (!this.group) return;
 
-    // Handle arrangement transitions
-    if (this.isTransitioning) {
-      const elapsed = (Date.now() - this.transitionStartTime) / 1000;
-      const progress = Math.min(1, elapsed / this.transitionDuration);
-      const easedProgress = this.applyEasing(progress, this.settings.transitionEasing);
-
-      if (progress >= 1) {
-        // Transition complete
-        this.isTransitioning = false;
-        this.initializeParticles();
-      } else {
-        // Detect if mobile internally and apply responsiveScale only if mobile
-        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
-        const responsiveScale = this.settings.responsiveScale ?? 1.0;
-        const effectiveScale = isMobile ? responsiveScale : 1.0;
-
-        // Generate target positions for transition with scale applied
-        const targetPositions = generateParticlePositions(this.settings.arrangementType, {
-          particleCount: this.settings.particleCount,
-          radius: this.settings.radius * effectiveScale,
-          numLines: this.settings.numLines,
-          particlesPerLine: this.settings.particlesPerLine,
-          numRings: this.settings.numRings,
-          maxParticlesPerRing: this.settings.maxParticlesPerRing,
-          spiralTurns: this.settings.spiralTurns
-        });
-
-        // Interpolate positions
-        for (let i = 0; i < this.particles.length && i < targetPositions.length; i++) {
-          const particle = this.particles[i];
-          const previousPos = this.previousPositions[i]?.position || particle.getMesh().position;
-          const targetPos = targetPositions[i].position;
-
-          const interpolatedPos = new Vector3(
-            this.lerp(previousPos.x, targetPos.x, easedProgress),
-            this.lerp(previousPos.y, targetPos.y, easedProgress),
-            this.lerp(previousPos.z, targetPos.z, easedProgress)
-          );
-
-          particle.updatePosition(interpolatedPos);
-        }
-      }
-    }
+    // Handle arrangement transitions and morphs
+    this.stepTransition(deltaTime);
 
     // Handle rotation
     if (this.settings.autoRotate) {
@@ -175,10 +393,41 @@ export class ParticleSystem {
       this.group.rotation.z = (this.settings.rotationZ * Math.PI) / 180;
     }
 
+    this.updateParticleAnimations(deltaTime);
+  }
+
+  private updateParticleAnimations(deltaTime: number): void {
+    const shouldAnimate = this.shouldAnimate();
+    if (shouldAnimate) {
+      this.animationTime += deltaTime * this.settings.animationSpeed;
+    }
+
+    const frame = this.animationFrame;
+    frame.type = shouldAnimate ? this.settings.animationType : 'none';
+    frame.time = this.animationTime;
+    frame.count = this.particles.length;
+    frame.radius = this.getEffectiveRadius();
+    frame.intensity = this.settings.animationIntensity;
+    frame.amplitude = this.settings.animationAmplitude;
+    frame.phase = this.settings.animationPhase;
+    frame.direction = this.settings.animationDirection;
+
+    // Settled particles only need one last frame to go back to their resting state
+    const isActive = isAnimationActive(frame);
+    if (!isActive && !this.hasAnimatedFrame && !this.transitionMoved) return;
+    this.hasAnimatedFrame = isActive;
+    this.transitionMoved = false;
+
     // Update individual particles
     for (const particle of this.particles) {
-      particle.update(deltaTime);
+      particle.update(frame);
     }
+
+    this.syncInstances();
+  }
+
+  public getSettings(): Readonly<ParticleSystemSettings> {
+    return { ...this.settings };
   }
 
   public getGroup(): Group {
@@ -189,6 +438,10 @@ export class ParticleSystem {
     return this.particles.length;
   }
 
+  public getInstancedMesh(): InstancedMesh | null {
+    return this.instancedMesh;
+  }
+
   public dispose(): void {
     this.clearParticles();
   }
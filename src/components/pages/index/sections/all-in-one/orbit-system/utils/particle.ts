@@ -1,74 +1,84 @@
-import { Mesh, SphereGeometry, MeshBasicMaterial, Vector3 } from 'three';
-import type { AnimationType } from './config';
+import { Color, Vector3 } from 'three';
+import { seededRandom } from '@/utils/particle-arrangements/seeded-random';
+import {
+  sampleParticleAnimation,
+  type ParticleAnimationFrame,
+  type ParticleAnimationSample
+} from './animation/particle-animations';
 
 interface ParticleConfig {
   position: Vector3;
-  size: number;
   index: number;
   color?: string;
 }
 
+// Per-particle state. Rendering happens through the InstancedMesh owned by ParticleSystem,
+// which reads the animated position, scale, opacity and color back from each particle.
 export class Particle {
-  private mesh: Mesh;
   private targetPosition: Vector3;
   private index: number;
+  private seed: number;
+  private color: Color;
+  private opacity: number = 1;
+  private scale: number = 1;
+  private sample: ParticleAnimationSample = { position: new Vector3(), scale: 1, opacity: 1 };
 
   constructor(config: ParticleConfig) {
     this.index = config.index;
+    this.seed = seededRandom(config.index);
     this.targetPosition = config.position.clone();
+    this.color = new Color(config.color || '#8972ff');
+    this.sample.position.copy(config.position);
+  }
 
-    // Create geometry and material
-    const geometry = new SphereGeometry(config.size, 16, 16);
-    const material = new MeshBasicMaterial({
-      color: config.color || '#8972ff',
-      transparent: true
-    });
+  public getIndex(): number {
+    return this.index;
+  }
 
-    // Create mesh
-    this.mesh = new Mesh(geometry, material);
-    this.mesh.position.copy(config.position);
+  // Resting position on the arrangement, without animation offsets
+  public getBasePosition(): Vector3 {
+    return this.targetPosition;
   }
 
-  public getMesh(): Mesh {
-    return this.mesh;
+  // Animated position of the last update
+  public getPosition(): Vector3 {
+    return this.sample.position;
   }
 
-  public getIndex(): number {
-    return this.index;
+  public getScale(): number {
+    return this.scale * this.sample.scale;
+  }
+
+  public getOpacity(): number {
+    return this.opacity * this.sample.opacity;
+  }
+
+  public getColor(): Color {
+    return this.color;
   }
 
   public updatePosition(newPosition: Vector3): void {
     this.targetPosition = newPosition.clone();
-    this.mesh.position.copy(newPosition);
+    this.sample.position.copy(newPosition);
   }
 
   public setColor(color: string): void {
-    if (this.mesh.material && 'color' in this.mesh.material) {
-      (this.mesh.material as any).color.set(color);
-    }
+    this.color.set(color);
   }
 
   public setOpacity(opacity: number): void {
-    if (this.mesh.material && 'opacity' in this.mesh.material) {
-      (this.mesh.material as any).opacity = opacity;
-    }
+    this.opacity = opacity;
   }
 
   public setScale(scale: number): void {
-    this.mesh.scale.setScalar(scale);
+    this.scale = scale;
   }
 
-  public update(deltaTime: number): void {
-    // For now, just static positioning
-    // Future: Add basic animations here if needed
+  public update(frame: ParticleAnimationFrame): void {
+    sampleParticleAnimation(
+      frame,
+      { basePosition: this.targetPosition, index: this.index, seed: this.seed },
+      this.sample
+    );
   }
-
-  public dispose(): void {
-    if (this.mesh.geometry) {
-      this.mesh.geometry.dispose();
-    }
-    if (this.mesh.material && 'dispose' in this.mesh.material) {
-      this.mesh.material.dispose();
-    }
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+// Phones and tablets, by user agent or a touch screen no wider than the mobile breakpoint
+export const isMobileDevice = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  
+  // Detectar por user agent
+  const userAgent = window.navigator.userAgent.toLowerCase();
+  const mobileKeywords = ['mobile', 'android', 'iphone', 'ipad', 'ipod', 'blackberry', 'windows phone'];
+  const isMobileUserAgent = mobileKeywords.some(keyword => userAgent.includes(keyword));
+  
+  // Detectar por touch support
+  const isTouchDevice = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+  
+  // Detectar por tamanho de tela (opcional, mais conservador)
+  const isSmallScreen = window.innerWidth <= 768;
+  
+  return isMobileUserAgent || (isTouchDevice && isSmallScreen);
+};
@@ -0,0 +1,168 @@
+import { isMobileDevice } from './device';
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualitySettings {
+  samples: number; // MeshTransmissionMaterial samples
+  resolution: number; // Lens render target size
+  pixelRatio: number; // upper bound, still capped by devicePixelRatio
+  backside: boolean; // extra backside transmission pass
+}
+
+// Ordered from cheapest to most expensive
+export const QUALITY_TIER_ORDER: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_TIERS: Record<QualityTier, QualitySettings> = {
+  low: { samples: 2, resolution: 512, pixelRatio: 1, backside: false },
+  medium: { samples: 4, resolution: 1024, pixelRatio: 1.5, backside: false },
+  high: { samples: 4, resolution: 2048, pixelRatio: 2, backside: false },
+  ultra: { samples: 8, resolution: 2048, pixelRatio: 2, backside: true }
+};
+
+// Where adapting starts: what the lens rendered before it adapted, 2 samples at 512 on mobile
+// devices and 4 at 2048 elsewhere
+export const getDeviceQualityTier = (): QualityTier => (isMobileDevice() ? 'low' : 'high');
+
+export interface QualityGovernorOptions {
+  initialTier?: QualityTier;
+  pinnedTier?: QualityTier | null;
+  maxTier?: QualityTier; // highest tier reached by adapting, pinning can go past it
+  targetFrameTime?: number; // ms
+  sampleSize?: number; // frames averaged per decision
+  downgradeRatio?: number; // step down when the average exceeds target * ratio
+  // Step up right away when the average stays under target * ratio, i.e. on displays faster than
+  // the target. Vsync-capped frames never get there, see probeFrames
+  upgradeRatio?: number;
+  // In-budget frames after which the next tier is tried anyway, reverted if it can't hold
+  probeFrames?: number;
+  cooldownFrames?: number; // frames ignored after a change while the new tier settles
+  maxFrameTime?: number; // longer frames (tab switches, GC hitches) are ignored
+  onChange?: (tier: QualityTier, settings: QualitySettings) => void;
+}
+
+// Watches frame times and steps the quality tier down when frames are slow and back up when
+// there is headroom, never past maxTier. Frame times can't show headroom on a vsync-capped
+// display, so a tier that stays in budget long enough probes the next one. Upgrades that had to
+// be reverted wait exponentially longer before retrying.
+export class QualityGovernor {
+  private options: Required<Omit<QualityGovernorOptions, 'onChange' | 'pinnedTier' | 'initialTier' | 'maxTier'>> & {
+    onChange?: (tier: QualityTier, settings: QualitySettings) => void;
+  };
+  private tierIndex: number;
+  private maxTierIndex: number;
+  private pinnedTier: QualityTier | null;
+
+  private frameTimes: number[] = [];
+  private cooldown: number = 0;
+  private upgradeBlockedFrames: number = 0;
+  private steadyFrames: number = 0;
+  private failedUpgrades: number[] = QUALITY_TIER_ORDER.map(() => 0);
+  private lastUpgradeTo: number = -1;
+
+  constructor(options: QualityGovernorOptions = {}) {
+    this.options = {
+      targetFrameTime: 1000 / 60,
+      sampleSize: 60,
+      downgradeRatio: 1.4,
+      upgradeRatio: 0.8,
+      probeFrames: 300,
+      cooldownFrames: 60,
+      maxFrameTime: 250,
+      onChange: options.onChange,
+      ...options
+    };
+    this.maxTierIndex = QUALITY_TIER_ORDER.indexOf(options.maxTier ?? 'high');
+    this.tierIndex = QUALITY_TIER_ORDER.indexOf(options.initialTier ?? getDeviceQualityTier());
+    this.pinnedTier = options.pinnedTier ?? null;
+  }
+
+  public recordFrame(frameTime: number): void {
+    if (this.pinnedTier || frameTime <= 0 || frameTime > this.options.maxFrameTime) return;
+
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return;
+    }
+    if (this.upgradeBlockedFrames > 0) {
+      this.upgradeBlockedFrames--;
+    }
+
+    this.frameTimes.push(frameTime);
+    if (this.frameTimes.length < this.options.sampleSize) return;
+
+    const average = this.frameTimes.reduce((total, time) => total + time, 0) / this.frameTimes.length;
+    this.frameTimes = [];
+
+    const { targetFrameTime, downgradeRatio, upgradeRatio, probeFrames, sampleSize } = this.options;
+    if (average > targetFrameTime * downgradeRatio) {
+      this.stepDown();
+      return;
+    }
+
+    // A tier that held for a full window is no longer a failed upgrade
+    this.lastUpgradeTo = -1;
+    this.steadyFrames += sampleSize;
+
+    const hasHeadroom = average < targetFrameTime * upgradeRatio || this.steadyFrames >= probeFrames;
+    if (hasHeadroom && this.upgradeBlockedFrames === 0) {
+      this.stepUp();
+    }
+  }
+
+  // Pins a tier and stops adapting, null resumes adapting from the pinned tier
+  public pin(tier: QualityTier | null): void {
+    this.pinnedTier = tier;
+    this.frameTimes = [];
+    if (tier) {
+      this.setTierIndex(QUALITY_TIER_ORDER.indexOf(tier));
+    }
+  }
+
+  public getPinnedTier(): QualityTier | null {
+    return this.pinnedTier;
+  }
+
+  public getTier(): QualityTier {
+    return QUALITY_TIER_ORDER[this.tierIndex];
+  }
+
+  public getSettings(): QualitySettings {
+    return QUALITY_TIERS[this.getTier()];
+  }
+
+  // Drop samples collected before a pause so they do not skew the next decision
+  public reset(): void {
+    this.frameTimes = [];
+    this.steadyFrames = 0;
+    this.cooldown = this.options.cooldownFrames;
+  }
+
+  private stepDown(): void {
+    if (this.tierIndex === 0) return;
+
+    // The last upgrade could not hold, back off before trying that tier again
+    if (this.lastUpgradeTo === this.tierIndex) {
+      this.failedUpgrades[this.tierIndex]++;
+      this.upgradeBlockedFrames =
+        this.options.sampleSize * 2 ** this.failedUpgrades[this.tierIndex];
+    }
+    this.lastUpgradeTo = -1;
+    this.setTierIndex(this.tierIndex - 1);
+  }
+
+  private stepUp(): void {
+    if (this.tierIndex >= this.maxTierIndex) return;
+
+    this.lastUpgradeTo = this.tierIndex + 1;
+    this.setTierIndex(this.tierIndex + 1);
+  }
+
+  private setTierIndex(index: number): void {
+    if (index === this.tierIndex) return;
+
+    this.tierIndex = index;
+    this.steadyFrames = 0;
+    this.cooldown = this.options.cooldownFrames;
+    this.options.onChange?.(this.getTier(), this.getSettings());
+  }
+}
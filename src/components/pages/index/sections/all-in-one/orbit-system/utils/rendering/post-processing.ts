@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { SavePass } from 'three/examples/jsm/postprocessing/SavePass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import type { ParticleSystemSettings } from '../config';
+
+export type PostProcessingSettings = Pick<
+  ParticleSystemSettings,
+  'bloomEnabled' | 'bloomThreshold' | 'bloomStrength' | 'bloomRadius' | 'exposure' | 'showGrid' | 'backgroundColor'
+>;
+
+export const POST_PROCESSING_KEYS: (keyof PostProcessingSettings)[] = [
+  'bloomEnabled',
+  'bloomThreshold',
+  'bloomStrength',
+  'bloomRadius',
+  'exposure',
+  'showGrid',
+  'backgroundColor'
+];
+
+export const pickPostProcessingSettings = (
+  settings: Partial<ParticleSystemSettings>
+): Partial<PostProcessingSettings> =>
+  Object.fromEntries(
+    POST_PROCESSING_KEYS.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]])
+  ) as Partial<PostProcessingSettings>;
+
+// Draws the frame into the composer's read buffer through a callback, so scenes with their own
+// passes (the lens renders its transmission buffers first) end up as one input image
+class FramePass extends Pass {
+  constructor(private draw: (target: THREE.WebGLRenderTarget) => void) {
+    super();
+    this.needsSwap = false;
+  }
+
+  render(renderer: THREE.WebGLRenderer, _writeBuffer: THREE.WebGLRenderTarget, readBuffer: THREE.WebGLRenderTarget): void {
+    renderer.setRenderTarget(readBuffer);
+    this.draw(readBuffer);
+  }
+}
+
+// Bloom adds light everywhere, alpha included, which would turn the transparent canvas opaque.
+// Taking alpha from the frame before bloom keeps the glow as premultiplied light over the page
+const ALPHA_RESTORE_SHADER = {
+  uniforms: {
+    tDiffuse: { value: null },
+    tBase: { value: null }
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tBase;
+    varying vec2 vUv;
+    void main() {
+      gl_FragColor = vec4(texture2D(tDiffuse, vUv).rgb, texture2D(tBase, vUv).a);
+    }
+  `
+};
+
+// Output pass that can write to an offscreen target (frame capture) instead of the canvas
+class TargetOutputPass extends OutputPass {
+  public target: THREE.WebGLRenderTarget | null = null;
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number,
+    maskActive: boolean
+  ): void {
+    if (!this.target) {
+      super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+      return;
+    }
+
+    const renderToScreen = this.renderToScreen;
+    this.renderToScreen = false;
+    super.render(renderer, this.target, readBuffer, deltaTime, maskActive);
+    this.renderToScreen = renderToScreen;
+  }
+}
+
+// Bloom, tone mapping with exposure and a debug grid for one renderer. The frame is drawn by the
+// caller into the first buffer, the chain then spreads bright areas and tone maps once at the end,
+// so the lens transmission buffers are still rendered untouched
+export class PostProcessing {
+  private renderer: THREE.WebGLRenderer;
+  private composer: EffectComposer;
+  private savePass: SavePass;
+  private bloomPass: UnrealBloomPass;
+  private alphaPass: ShaderPass;
+  private outputPass: TargetOutputPass;
+  private grid: THREE.GridHelper;
+  private settings: PostProcessingSettings;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    draw: (target: THREE.WebGLRenderTarget) => void,
+    gridParent: THREE.Object3D,
+    settings: PostProcessingSettings
+  ) {
+    this.renderer = renderer;
+    this.settings = { ...settings };
+
+    const size = renderer.getSize(new THREE.Vector2());
+    this.composer = new EffectComposer(renderer);
+    this.composer.setPixelRatio(renderer.getPixelRatio());
+    this.composer.setSize(size.x, size.y);
+
+    this.savePass = new SavePass();
+    this.bloomPass = new UnrealBloomPass(size, settings.bloomStrength, settings.bloomRadius, settings.bloomThreshold);
+    this.alphaPass = new ShaderPass(ALPHA_RESTORE_SHADER);
+    this.alphaPass.uniforms.tBase.value = this.savePass.renderTarget.texture;
+    this.outputPass = new TargetOutputPass();
+
+    this.composer.addPass(new FramePass(draw));
+    this.composer.addPass(this.savePass);
+    this.composer.addPass(this.bloomPass);
+    this.composer.addPass(this.alphaPass);
+    this.composer.addPass(this.outputPass);
+
+    // The scene lies on the XY plane facing the camera
+    this.grid = new THREE.GridHelper(12, 24, 0x4c43fc, 0xcccccc);
+    this.grid.rotation.x = Math.PI / 2;
+    gridParent.add(this.grid);
+
+    this.applySettings();
+  }
+
+  private applySettings(): void {
+    const { bloomEnabled, bloomThreshold, bloomStrength, bloomRadius, exposure, showGrid } = this.settings;
+
+    this.savePass.enabled = bloomEnabled;
+    this.bloomPass.enabled = bloomEnabled;
+    this.alphaPass.enabled = bloomEnabled;
+    this.bloomPass.threshold = bloomThreshold;
+    this.bloomPass.strength = bloomStrength;
+    this.bloomPass.radius = bloomRadius;
+
+    // Materials skip tone mapping when drawing into the composer's targets, the output pass
+    // applies it once with these values
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    this.renderer.toneMappingExposure = exposure;
+
+    this.grid.visible = showGrid;
+  }
+
+  public updateSettings(settings: Partial<PostProcessingSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.applySettings();
+  }
+
+  public getSettings(): PostProcessingSettings {
+    return { ...this.settings };
+  }
+
+  // Runs the chain, ending on the canvas or on `target`
+  public render(target: THREE.WebGLRenderTarget | null = null): void {
+    this.outputPass.target = target;
+    this.composer.render();
+    this.outputPass.target = null;
+    this.renderer.setRenderTarget(null);
+  }
+
+  public setSize(width: number, height: number, pixelRatio: number = this.renderer.getPixelRatio()): void {
+    this.composer.setPixelRatio(pixelRatio);
+    this.composer.setSize(width, height);
+  }
+
+  public dispose(): void {
+    this.grid.removeFromParent();
+    this.grid.dispose();
+    this.savePass.renderTarget.dispose();
+    this.bloomPass.dispose();
+    this.alphaPass.dispose();
+    this.outputPass.dispose();
+    this.composer.dispose();
+
+    this.renderer.toneMapping = THREE.NoToneMapping;
+    this.renderer.toneMappingExposure = 1.0;
+  }
+}
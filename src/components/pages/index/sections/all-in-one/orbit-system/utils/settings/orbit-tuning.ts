@@ -0,0 +1,343 @@
+import type { registerTunableScene, TunableField, TunableSceneHandle } from '@/utils/tuning-panel';
+import type { OrbitSystemManager } from '../orbit-system-manager';
+import type { LensParticleSystemOptions } from '../lens-particle-system';
+import type { OrbitingSpheresConfig } from '../orbiting-spheres';
+import type { ParticleSystemSettings } from '../config';
+import { pickCameraSettings } from '../camera/camera-rig';
+import { QUALITY_TIER_ORDER, type QualityTier } from '../performance/quality-governor';
+import { PARTICLE_SETTINGS_SCHEMA } from './settings-schema';
+import { ParticleConfigManager } from './particle-config-manager';
+import { getArrangement, getArrangementTypes } from '@/utils/particle-arrangements/geometry-positions';
+
+type RegisterTunableScene = typeof registerTunableScene;
+
+// Particle settings that the lens, the camera setup or the orbit texts own rather than the
+// particle system, or that only apply when the scene is built
+const PARTICLE_EXCLUDED_PREFIXES = [
+  'camera',
+  'orbitControls',
+  'backgroundColor',
+  'showGrid',
+  'bloom',
+  'exposure',
+  'lensCursor',
+  'orbitingText',
+  'showOrbitingTexts',
+  'responsiveScale'
+];
+
+const LENS_KEYS: (keyof LensParticleSystemOptions)[] = [
+  'lensCursorSize',
+  'lensCursorIor',
+  'lensCursorThickness',
+  'lensCursorChromaticAberration',
+  'lensCursorAnisotropy',
+  'lensCursorTransmission',
+  'lensCursorRoughness',
+  'lensCursorDistortion',
+  'lensCursorDistortionScale',
+  'lensCursorTemporalDistortion',
+  'lensCursorSamples',
+  'lensCursorBackside',
+  'lensCursorBacksideThickness',
+  'lensCursorBackground',
+  'lensCursorBackgroundScale',
+  'lensCursorFollowPointer',
+  'lensCursorDamping',
+  'lensCursorBounds',
+  'pulseEnabled',
+  'pulseMinScale',
+  'pulseMaxScale',
+  'pulseSpeed',
+  'smoothingFactor'
+];
+
+const ORBIT_KEYS: (keyof OrbitingSpheresConfig)[] = [
+  'sphereCount',
+  'sphereSize',
+  'rotationSpeed',
+  'color',
+  'showTexts',
+  'textFadeInDuration',
+  'textFadeOutDuration'
+];
+
+const pick = <T extends object, K extends keyof T>(source: T, keys: K[]): Pick<T, K> =>
+  Object.fromEntries(keys.filter((key) => source[key] !== undefined).map((key) => [key, source[key]])) as Pick<T, K>;
+
+// Slider ranges and dropdowns from the settings schema, so the panel can't go past what validation accepts
+const schemaFields = (): Record<string, TunableField> => {
+  const fields: Record<string, TunableField> = {};
+  for (const [key, schema] of Object.entries(PARTICLE_SETTINGS_SCHEMA)) {
+    if (schema.type === 'number') {
+      fields[key] = { min: schema.min, max: schema.max, step: schema.integer ? 1 : undefined };
+    } else if (schema.type === 'enum') {
+      fields[key] = { options: schema.values };
+    } else if (schema.type === 'arrangement') {
+      fields[key] = { options: getArrangementTypes() };
+    }
+  }
+  return fields;
+};
+
+// Every registered arrangement's params, current values over the defaults, with their ranges
+const arrangementParamsConfig = (
+  current: ParticleSystemSettings['arrangementParams']
+): { values: ParticleSystemSettings['arrangementParams']; fields: Record<string, TunableField> } => {
+  const values: ParticleSystemSettings['arrangementParams'] = {};
+  const fields: Record<string, TunableField> = {};
+  for (const type of getArrangementTypes()) {
+    for (const [name, schema] of Object.entries(getArrangement(type)?.params ?? {})) {
+      values[name] = current[name] ?? schema.default;
+      if (schema.type === 'number') {
+        fields[`arrangementParams.${name}`] = { min: schema.min, max: schema.max, step: schema.integer ? 1 : undefined };
+      }
+    }
+  }
+  return { values, fields };
+};
+
+// Frame length used by the clock folder's step button
+const STEP_SECONDS = 1 / 60;
+
+// Particles, camera and post-processing together, what shared links and exported files carry
+export const getOrbitSettings = (manager: OrbitSystemManager): ParticleSystemSettings => ({
+  ...manager.getParticleSystem().getParticleSystem().getSettings(),
+  ...manager.getCameraSettings(),
+  ...manager.getPostProcessingSettings()
+});
+
+// Settings from a shared link or an imported file. A camera duration of 0 snaps the camera
+export const applyOrbitSettings = (
+  manager: OrbitSystemManager,
+  settings: Partial<ParticleSystemSettings>,
+  cameraDuration?: number
+): void => {
+  manager.applyParticleSettings(settings);
+  const camera = pickCameraSettings(settings);
+  if (Object.keys(camera).length > 0) {
+    manager.updateCamera(camera, cameraDuration);
+  }
+};
+
+// Clock, lens, camera, post-processing, particles, both orbits and the stage timeline as folders of the dev tuning panel. Every
+// change goes through the systems' own update methods so it applies without a reload
+const registerSceneFolders = (
+  register: RegisterTunableScene,
+  manager: OrbitSystemManager
+): TunableSceneHandle[] => {
+  const lensParticleSystem = manager.getParticleSystem();
+  const particleSystem = lensParticleSystem.getParticleSystem();
+  const fields = schemaFields();
+  const handles: TunableSceneHandle[] = [];
+
+  const clock = manager.getClock();
+  const clockConfig = { paused: clock.isPaused(), timeScale: clock.getTimeScale() };
+  const clockHandle = register({
+    name: 'Orbit · Clock',
+    config: clockConfig,
+    fields: { timeScale: { min: 0, max: 2, step: 0.05 } },
+    onChange: (path, value) => {
+      if (path === 'paused') {
+        if (value) clock.pause();
+        else clock.resume();
+      } else {
+        clock.setTimeScale(value as number);
+      }
+    },
+    actions: {
+      // Stepping pauses first so the frame stays put
+      'Step Frame': () => {
+        clock.pause();
+        clock.step(STEP_SECONDS);
+        clockConfig.paused = true;
+        clockHandle.refresh();
+      }
+    }
+  });
+  handles.push(clockHandle);
+
+  const lensOptions = lensParticleSystem.getOptions();
+  const lensConfig = {
+    qualityTier: 'auto' as QualityTier | 'auto',
+    ...pick(lensOptions, LENS_KEYS),
+    lensCursorBounds: { ...lensOptions.lensCursorBounds! }
+  };
+  handles.push(
+    register({
+      name: 'Orbit · Lens',
+      config: lensConfig,
+      fields: {
+        ...fields,
+        qualityTier: { options: ['auto', ...QUALITY_TIER_ORDER], label: 'Quality Tier (auto overrides samples)' },
+        lensCursorBackgroundScale: { min: 0, max: 1 },
+        'lensCursorBounds.*': { min: 0, max: 5 },
+        pulseMinScale: { min: 0, max: 2 },
+        pulseMaxScale: { min: 0, max: 2 },
+        pulseSpeed: { min: 0, max: 0.1 },
+        smoothingFactor: { min: 0.1, max: 5 }
+      },
+      onChange: (path, value) => {
+        if (path === 'qualityTier') {
+          manager.pinQualityTier(value === 'auto' ? null : (value as QualityTier));
+        } else if (path === 'lensCursorFollowPointer') {
+          manager.setLensFollowsPointer(value as boolean);
+        } else if (path.startsWith('lensCursorBounds.')) {
+          lensParticleSystem.updateOptions({ lensCursorBounds: { ...lensConfig.lensCursorBounds } });
+        } else {
+          lensParticleSystem.updateOptions({ [path]: value });
+        }
+      }
+    })
+  );
+
+  const cameraConfig = manager.getCameraSettings();
+  handles.push(
+    register({
+      name: 'Orbit · Camera',
+      config: cameraConfig,
+      fields: {
+        ...fields,
+        'cameraPosition.*': { min: -20, max: 20 },
+        'cameraTarget.*': { min: -5, max: 5 }
+      },
+      onChange: (path, value) => {
+        // Vectors go whole, a free position only applies with the 'free' preset
+        const [key] = path.split('.') as [keyof typeof cameraConfig];
+        manager.updateCamera({ [key]: Array.isArray(cameraConfig[key]) ? [...(cameraConfig[key] as number[])] : value });
+      }
+    })
+  );
+
+  // Only with the chain on, the values do nothing otherwise
+  if (manager.isPostProcessingEnabled()) {
+    handles.push(
+      register({
+        name: 'Orbit · Post-processing',
+        config: manager.getPostProcessingSettings(),
+        fields,
+        onChange: (path, value) => manager.updatePostProcessing({ [path]: value })
+      })
+    );
+  }
+
+  const particleConfig = Object.fromEntries(
+    Object.entries(particleSystem.getSettings()).filter(
+      ([key]) => !PARTICLE_EXCLUDED_PREFIXES.some((prefix) => key.startsWith(prefix))
+    )
+  ) as Partial<ParticleSystemSettings>;
+  const arrangementParams = arrangementParamsConfig(particleSystem.getSettings().arrangementParams);
+  particleConfig.arrangementParams = arrangementParams.values;
+  handles.push(
+    register({
+      name: 'Orbit · Particles',
+      config: particleConfig,
+      fields: { ...fields, ...arrangementParams.fields },
+      onChange: (path, value) => {
+        if (path.startsWith('arrangementParams.')) {
+          particleSystem.updateSettings({ arrangementParams: { ...arrangementParams.values } });
+        } else {
+          particleSystem.updateSettings({ [path]: value });
+        }
+      }
+    })
+  );
+
+  for (const orbit of [manager.getOrbit1(), manager.getOrbit2()]) {
+    const config = orbit.getConfig();
+    handles.push(
+      register({
+        name: `Orbit · ${config.orbitId}`,
+        config: pick(config, ORBIT_KEYS),
+        fields: {
+          sphereCount: { min: 1, max: 600, step: 1 },
+          sphereSize: { min: 0.001, max: 0.1 },
+          rotationSpeed: { min: -1, max: 1 },
+          textFadeInDuration: { min: 0, max: 3 },
+          textFadeOutDuration: { min: 0, max: 3 }
+        },
+        onChange: (path, value) => orbit.updateConfig({ [path]: value })
+      })
+    );
+  }
+
+  // Edited in place: the systems share this timeline object, the update calls refresh what they
+  // derive from it (text hide stages, target radii)
+  const timeline = manager.getTimeline();
+  handles.push(
+    register({
+      name: 'Orbit · Stages',
+      config: timeline,
+      fields: {
+        'keyframes.*.duration': { min: 0.1, max: 10 },
+        'keyframes.*.lensScale': { min: 0, max: 3 },
+        '*.lensScale': { min: 0, max: 3 },
+        'keyframes.*.orbitRadii.*': { min: 0, max: 6 },
+        '*.orbitRadii.*': { min: 0, max: 6 },
+        transitionDuration: { min: 0, max: 5 },
+        returnDelay: { min: 0, max: 10 },
+        returnDuration: { min: 0, max: 5 }
+      },
+      exclude: ['keyframes.*.name', 'keyframes.*.hideTexts'],
+      onChange: () => {
+        lensParticleSystem.updateOptions({ timeline });
+        manager.getOrbit1().updateConfig({ timeline });
+        manager.getOrbit2().updateConfig({ timeline });
+      }
+    })
+  );
+
+  return handles;
+};
+
+// The scene folders plus link and JSON round trips of the particle settings
+export const registerOrbitTuning = (
+  register: RegisterTunableScene,
+  manager: OrbitSystemManager
+): (() => void) => {
+  let sceneHandles = registerSceneFolders(register, manager);
+  const disposeSceneFolders = () => {
+    for (const handle of sceneHandles) {
+      handle.dispose();
+    }
+  };
+
+  const shareHandle = register({
+    name: 'Orbit · Share',
+    config: {},
+    onChange: () => {
+      // Buttons only
+    },
+    actions: {
+      'Copy Link': () => {
+        const link = ParticleConfigManager.toShareUrl(getOrbitSettings(manager));
+        navigator.clipboard?.writeText(link).catch(() => {
+          // The link is logged below either way
+        });
+        console.log('🔗 Orbit settings link:', link);
+      },
+      'Export JSON': () => ParticleConfigManager.exportJson(getOrbitSettings(manager)),
+      'Import JSON': async () => {
+        const result = await ParticleConfigManager.importJson();
+        if (!result?.settings) {
+          return;
+        }
+
+        applyOrbitSettings(manager, result.settings);
+        // The folders hold copies of the values, rebuild them from the applied settings
+        disposeSceneFolders();
+        sceneHandles = registerSceneFolders(register, manager);
+      },
+      'Reset to Defaults': () => {
+        // A shared link's settings would be applied again after the reload
+        ParticleConfigManager.clearUrlHash();
+        location.reload();
+      }
+    }
+  });
+
+  return () => {
+    shareHandle.dispose();
+    disposeSceneFolders();
+  };
+};
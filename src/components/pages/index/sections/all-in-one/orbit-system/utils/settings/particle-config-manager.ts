@@ -0,0 +1,174 @@
+import { DEFAULT_SETTINGS, PRESET_CONFIGS, type ParticleSystemSettings } from '../config';
+import {
+  downloadConfigJson,
+  parseConfigJson,
+  pickConfigJson,
+  readConfigFromHash,
+  removeConfigFromHash,
+  writeConfigToHash,
+  type SharedConfig
+} from '@/utils/config-share';
+import {
+  formatSettingsIssues,
+  validateSettings,
+  type SettingsIssue,
+  type SettingsValidationResult
+} from './settings-schema';
+import {
+  SETTINGS_VERSION,
+  migrateSettings,
+  unwrapStoredSettings,
+  type StoredSettings
+} from './settings-migrations';
+
+export interface SettingsLoadResult {
+  settings: ParticleSystemSettings | null; // null when nothing usable was stored
+  issues: SettingsIssue[];
+  storedVersion: number | null;
+}
+
+// Persists ParticleSystemSettings in localStorage. Everything read back is migrated to the current
+// version, validated, clamped and merged over the defaults, problems are reported instead of
+// reaching the scene
+export class ParticleConfigManager {
+  private static STORAGE_KEY = 'particleSystemSettings';
+  private static SHARE_SCENE = 'particles';
+
+  static save(settings: ParticleSystemSettings): void {
+    const { settings: validated, issues } = this.validate(settings);
+    this.report('Saving particle settings', issues);
+
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings: { ...validated } };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      // Private mode or a full quota
+      console.error('Could not save particle settings:', error);
+    }
+  }
+
+  static load(): ParticleSystemSettings | null {
+    const { settings, issues } = this.loadWithReport();
+    this.report('Loaded particle settings', issues);
+    return settings;
+  }
+
+  // Same as load() but returns the issues instead of logging them, e.g. to show them in a UI
+  static loadWithReport(): SettingsLoadResult {
+    let saved: string | null;
+    try {
+      saved = localStorage.getItem(this.STORAGE_KEY);
+    } catch (error) {
+      return {
+        settings: null,
+        issues: [{ key: '(storage)', severity: 'error', message: `localStorage unavailable: ${error}` }],
+        storedVersion: null
+      };
+    }
+    if (!saved) return { settings: null, issues: [], storedVersion: null };
+
+    let data: unknown;
+    try {
+      data = JSON.parse(saved);
+    } catch (error) {
+      return {
+        settings: null,
+        issues: [{ key: '(root)', severity: 'error', message: `stored settings are not valid JSON: ${error}` }],
+        storedVersion: null
+      };
+    }
+
+    return this.parse(data);
+  }
+
+  // Migrates and validates settings from any source: storage, a shared link or an imported file
+  static parse(data: unknown): SettingsLoadResult {
+    const stored = unwrapStoredSettings(data);
+    const issues: SettingsIssue[] = [];
+    const migrated = migrateSettings(stored, issues);
+    const { settings, issues: validationIssues } = validateSettings(migrated, DEFAULT_SETTINGS);
+
+    return { settings, issues: [...issues, ...validationIssues], storedVersion: stored.version };
+  }
+
+  static validate(settings: unknown): SettingsValidationResult {
+    return validateSettings(settings, DEFAULT_SETTINGS);
+  }
+
+  // Writes `settings` into the URL hash (only what differs from the defaults) and returns the link
+  static toShareUrl(settings: ParticleSystemSettings): string {
+    const { settings: validated } = this.validate(settings);
+    return writeConfigToHash(this.SHARE_SCENE, SETTINGS_VERSION, validated, DEFAULT_SETTINGS);
+  }
+
+  // Settings from a shared link, null when the URL has none
+  static fromUrlHash(): SettingsLoadResult | null {
+    try {
+      const shared = readConfigFromHash(this.SHARE_SCENE);
+      return shared ? this.parseShared(shared) : null;
+    } catch (error) {
+      return {
+        settings: null,
+        issues: [{ key: '(url)', severity: 'error', message: `shared settings could not be read: ${error}` }],
+        storedVersion: null
+      };
+    }
+  }
+
+  // Drops a shared link's settings, e.g. before resetting to the defaults
+  static clearUrlHash(): void {
+    removeConfigFromHash(this.SHARE_SCENE);
+  }
+
+  static exportJson(settings: ParticleSystemSettings): void {
+    const { settings: validated } = this.validate(settings);
+    downloadConfigJson(this.SHARE_SCENE, SETTINGS_VERSION, validated);
+  }
+
+  // Reads an exported file, or asks for one when `file` is omitted. Null when the picker is cancelled
+  static async importJson(file?: Blob): Promise<SettingsLoadResult | null> {
+    try {
+      const shared = file
+        ? await parseConfigJson(file, this.SHARE_SCENE)
+        : await pickConfigJson(this.SHARE_SCENE);
+      return shared ? this.parseShared(shared) : null;
+    } catch (error) {
+      return {
+        settings: null,
+        issues: [{ key: '(file)', severity: 'error', message: `settings file could not be read: ${error}` }],
+        storedVersion: null
+      };
+    }
+  }
+
+  private static parseShared(shared: SharedConfig): SettingsLoadResult {
+    const result = this.parse({ version: shared.version, settings: shared.config });
+    this.report('Shared particle settings', result.issues);
+    return result;
+  }
+
+  static loadOrDefault(): ParticleSystemSettings {
+    return this.load() ?? { ...DEFAULT_SETTINGS };
+  }
+
+  static reset(): ParticleSystemSettings {
+    try {
+      localStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error('Could not reset particle settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  static applyPreset(presetName: keyof typeof PRESET_CONFIGS): ParticleSystemSettings {
+    return { ...PRESET_CONFIGS[presetName] };
+  }
+
+  private static report(context: string, issues: SettingsIssue[]): void {
+    if (issues.length === 0) return;
+
+    const hasErrors = issues.some((issue) => issue.severity === 'error');
+    const log = hasErrors ? console.error : console.warn;
+    log(`${context} with ${issues.length} issue(s):\n${formatSettingsIssues(issues)}`);
+  }
+}
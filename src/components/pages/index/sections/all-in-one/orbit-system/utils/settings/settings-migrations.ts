@@ -0,0 +1,62 @@
+import type { SettingsIssue } from './settings-schema';
+
+// Bump when the stored shape of ParticleSystemSettings changes, and add the migration from the
+// previous version below
+export const SETTINGS_VERSION = 1;
+
+// What ParticleConfigManager writes to storage
+export interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+type SettingsMigration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+// Migration from version N to N + 1, keyed by N
+const MIGRATIONS: Record<number, SettingsMigration> = {
+  // Version 0 stored the bare settings object without an envelope, the keys did not change
+  0: (settings) => settings
+};
+
+// Accepts an envelope or a bare settings object (version 0)
+export const unwrapStoredSettings = (data: unknown): StoredSettings => {
+  if (
+    typeof data === 'object' &&
+    data !== null &&
+    'version' in data &&
+    'settings' in data &&
+    typeof data.version === 'number' &&
+    typeof data.settings === 'object' &&
+    data.settings !== null
+  ) {
+    return { version: data.version, settings: data.settings as Record<string, unknown> };
+  }
+  return { version: 0, settings: (data ?? {}) as Record<string, unknown> };
+};
+
+// Runs every migration between `stored.version` and SETTINGS_VERSION. Settings from a newer
+// version are passed through as they are and reported, validation drops what it does not know
+export const migrateSettings = (
+  stored: StoredSettings,
+  issues: SettingsIssue[]
+): Record<string, unknown> => {
+  if (stored.version > SETTINGS_VERSION) {
+    issues.push({
+      key: '(version)',
+      severity: 'warning',
+      message: `saved with version ${stored.version}, newer than ${SETTINGS_VERSION}, loading what is compatible`
+    });
+    return stored.settings;
+  }
+
+  let settings = { ...stored.settings };
+  for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      issues.push({ key: '(version)', severity: 'error', message: `no migration from version ${version}` });
+      break;
+    }
+    settings = migration(settings);
+  }
+  return settings;
+};
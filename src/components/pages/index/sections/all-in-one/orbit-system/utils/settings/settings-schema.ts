@@ -0,0 +1,293 @@
+import {
+  ANIMATION_DIRECTIONS,
+  ANIMATION_TYPES,
+  CAMERA_PRESETS,
+  CAMERA_TYPES,
+  TRANSITION_EASINGS,
+  type ParticleSystemSettings
+} from '../config';
+import { findArrangementParam, getArrangement, getArrangementTypes } from '@/utils/particle-arrangements/geometry-positions';
+
+export type SettingsFieldSchema =
+  | { type: 'number'; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { type: 'boolean' }
+  | { type: 'color' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'vector3'; min: number; max: number }
+  | { type: 'string-array'; maxLength: number }
+  | { type: 'arrangement' } // a key of the arrangement registry
+  | { type: 'arrangement-params' }; // params declared by registered arrangements
+
+export interface SettingsIssue {
+  key: string;
+  severity: 'error' | 'warning'; // errors fall back to the default value, warnings are corrected
+  message: string;
+}
+
+export interface SettingsValidationResult {
+  settings: ParticleSystemSettings;
+  issues: SettingsIssue[];
+}
+
+const number = (min: number, max: number, integer = false): SettingsFieldSchema => ({
+  type: 'number',
+  min,
+  max,
+  integer
+});
+const optionalNumber = (min: number, max: number, integer = false): SettingsFieldSchema => ({
+  type: 'number',
+  min,
+  max,
+  integer,
+  optional: true
+});
+const boolean: SettingsFieldSchema = { type: 'boolean' };
+const color: SettingsFieldSchema = { type: 'color' };
+const oneOf = (values: readonly string[]): SettingsFieldSchema => ({ type: 'enum', values });
+
+// Every settings key with the values it accepts. Ranges are what the scene handles without
+// breaking or stalling, e.g. MeshTransmissionMaterial unrolls `samples` in the shader
+export const PARTICLE_SETTINGS_SCHEMA: Record<keyof ParticleSystemSettings, SettingsFieldSchema> = {
+  // Particle arrangement
+  arrangementType: { type: 'arrangement' },
+  particleCount: number(1, 5000, true),
+  numLines: number(1, 200, true),
+  particlesPerLine: number(1, 500, true),
+  numRings: number(1, 100, true),
+  maxParticlesPerRing: number(1, 500, true),
+  ringsRadius: number(0.01, 10),
+  spiralTurns: number(0, 50),
+  arrangementParams: { type: 'arrangement-params' },
+  radius: number(0.01, 20),
+  particleSize: number(0.001, 1),
+  particleColor: color,
+
+  // Animation
+  continuousAnimation: boolean,
+  animationSpeed: number(0, 10),
+  animationIntensity: number(0, 5),
+  animationType: oneOf(ANIMATION_TYPES),
+  animationDirection: oneOf(ANIMATION_DIRECTIONS),
+  animationPhase: number(0, 10),
+  animationAmplitude: number(0, 10),
+
+  // Arrangement Transitions
+  arrangementTransitionsEnabled: boolean,
+  transitionDuration: number(0, 10),
+  transitionEasing: oneOf(TRANSITION_EASINGS),
+
+  // Object rotation
+  rotationX: number(-360, 360),
+  rotationY: number(-360, 360),
+  rotationZ: number(-360, 360),
+  autoRotate: boolean,
+  autoRotateSpeedX: number(-360, 360),
+  autoRotateSpeedY: number(-360, 360),
+  autoRotateSpeedZ: number(-360, 360),
+
+  // Camera
+  cameraType: oneOf(CAMERA_TYPES),
+  cameraPreset: oneOf(CAMERA_PRESETS),
+  orbitControlsEnabled: boolean,
+  cameraPosition: { type: 'vector3', min: -1000, max: 1000 },
+  cameraTarget: { type: 'vector3', min: -1000, max: 1000 },
+
+  // Visual effects
+  backgroundColor: color,
+  showGrid: boolean,
+
+  // Bloom
+  bloomEnabled: boolean,
+  bloomThreshold: number(0, 1),
+  bloomStrength: number(0, 10),
+  bloomRadius: number(0, 1),
+  exposure: number(0, 10),
+
+  // Lens Cursor
+  lensCursorEnabled: boolean,
+  lensCursorSize: number(0.01, 10),
+  lensCursorDamping: number(0, 1),
+  lensCursorIor: number(1, 2.333),
+  lensCursorThickness: number(0, 10),
+  lensCursorChromaticAberration: number(0, 1),
+  lensCursorAnisotropy: number(0, 1),
+  lensCursorTransmission: number(0, 1),
+  lensCursorRoughness: number(0, 1),
+  lensCursorDistortion: number(0, 1),
+  lensCursorDistortionScale: number(0.01, 1),
+  lensCursorTemporalDistortion: number(0, 1),
+  lensCursorSamples: number(1, 32, true),
+  lensCursorBackside: boolean,
+  lensCursorBacksideThickness: number(0, 10),
+  lensCursorTransmissionSampler: boolean,
+  lensCursorResolution: optionalNumber(64, 4096, true),
+  lensCursorBacksideResolution: optionalNumber(64, 4096, true),
+  lensCursorBackground: color,
+
+  // Orbital Texts - Layer 1
+  orbitingTexts1: { type: 'string-array', maxLength: 20 },
+  showOrbitingTexts1: boolean,
+  orbitingTextColor1: color,
+  orbitingTextSize1: number(4, 128),
+  orbitingTextOffset1: number(-5, 5),
+
+  // Orbital Texts - Layer 2
+  orbitingTexts2: { type: 'string-array', maxLength: 20 },
+  showOrbitingTexts2: boolean,
+  orbitingTextColor2: color,
+  orbitingTextSize2: number(4, 128),
+  orbitingTextOffset2: number(-5, 5),
+
+  // Responsive
+  responsiveScale: optionalNumber(0.1, 2)
+};
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+const clampNumber = (
+  key: string,
+  value: number,
+  schema: { min: number; max: number; integer?: boolean },
+  issues: SettingsIssue[]
+): number => {
+  let result = value;
+  if (schema.integer && !Number.isInteger(result)) {
+    result = Math.round(result);
+    issues.push({ key, severity: 'warning', message: `${value} is not an integer, rounded to ${result}` });
+  }
+  if (result < schema.min || result > schema.max) {
+    const clamped = Math.min(schema.max, Math.max(schema.min, result));
+    issues.push({
+      key,
+      severity: 'warning',
+      message: `${result} is outside ${schema.min}..${schema.max}, clamped to ${clamped}`
+    });
+    result = clamped;
+  }
+  return result;
+};
+
+// Params no registered arrangement declares are dropped, the rest are checked against their schema
+const validateArrangementParams = (
+  key: string,
+  value: object,
+  issues: SettingsIssue[]
+): Record<string, number | string> => {
+  const params: Record<string, number | string> = {};
+  for (const [name, param] of Object.entries(value)) {
+    const paramKey = `${key}.${name}`;
+    const schema = findArrangementParam(name);
+    if (!schema) {
+      issues.push({ key: paramKey, severity: 'warning', message: 'no arrangement uses this param, ignored' });
+    } else if (schema.type === 'number') {
+      if (typeof param === 'number' && Number.isFinite(param)) {
+        params[name] = clampNumber(paramKey, param, schema, issues);
+      } else {
+        issues.push({ key: paramKey, severity: 'error', message: `expected a finite number, got ${describe(param)}, ignored` });
+      }
+    } else if (typeof param === 'string') {
+      params[name] = param;
+    } else {
+      issues.push({ key: paramKey, severity: 'error', message: `expected a string, got ${describe(param)}, ignored` });
+    }
+  }
+  return params;
+};
+
+// The corrected value, or undefined when the value cannot be used and the default applies
+const validateField = (
+  key: string,
+  value: unknown,
+  schema: SettingsFieldSchema,
+  issues: SettingsIssue[]
+): unknown => {
+  const reject = (expected: string): undefined => {
+    issues.push({ key, severity: 'error', message: `expected ${expected}, got ${describe(value)}, using the default` });
+    return undefined;
+  };
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return reject('a finite number');
+      return clampNumber(key, value, schema, issues);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : reject('a boolean');
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value) ? value : reject('a hex color like #2E15FE');
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? value
+        : reject(`one of ${schema.values.join(', ')}`);
+    case 'vector3':
+      if (!Array.isArray(value) || value.length !== 3 || !value.every((item) => typeof item === 'number' && Number.isFinite(item))) {
+        return reject('an [x, y, z] array of numbers');
+      }
+      return value.map((item, index) => clampNumber(`${key}[${index}]`, item, schema, issues));
+    case 'string-array':
+      if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+        return reject('an array of strings');
+      }
+      if (value.length > schema.maxLength) {
+        issues.push({ key, severity: 'warning', message: `${value.length} items, only the first ${schema.maxLength} are kept` });
+        return value.slice(0, schema.maxLength);
+      }
+      return [...value];
+    case 'arrangement':
+      return typeof value === 'string' && getArrangement(value)
+        ? value
+        : reject(`one of ${getArrangementTypes().join(', ')}`);
+    case 'arrangement-params':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return reject('an object of params');
+      return validateArrangementParams(key, value, issues);
+  }
+};
+
+// Checks `input` key by key and merges the usable values over `defaults`. Missing keys take the
+// default silently, unknown keys are dropped and reported
+export const validateSettings = (
+  input: unknown,
+  defaults: ParticleSystemSettings
+): SettingsValidationResult => {
+  const issues: SettingsIssue[] = [];
+  const settings: ParticleSystemSettings = {
+    ...defaults,
+    cameraPosition: [...defaults.cameraPosition],
+    cameraTarget: [...defaults.cameraTarget],
+    arrangementParams: { ...defaults.arrangementParams },
+    orbitingTexts1: [...defaults.orbitingTexts1],
+    orbitingTexts2: [...defaults.orbitingTexts2]
+  };
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    issues.push({ key: '(root)', severity: 'error', message: `expected a settings object, got ${describe(input)}, using the defaults` });
+    return { settings, issues };
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!Object.hasOwn(PARTICLE_SETTINGS_SCHEMA, key)) {
+      issues.push({ key, severity: 'warning', message: 'unknown setting, ignored' });
+      continue;
+    }
+
+    const schema = PARTICLE_SETTINGS_SCHEMA[key as keyof ParticleSystemSettings];
+    // Optional numbers (auto resolution, responsive scale) are unset with null or undefined
+    if (value == null && schema.type === 'number' && schema.optional) {
+      Object.assign(settings, { [key]: undefined });
+      continue;
+    }
+
+    const validated = validateField(key, value, schema, issues);
+    if (validated !== undefined) {
+      Object.assign(settings, { [key]: validated });
+    }
+  }
+
+  return { settings, issues };
+};
+
+// One line per issue, for console reports
+export const formatSettingsIssues = (issues: SettingsIssue[]): string =>
+  issues.map((issue) => `[${issue.severity}] ${issue.key}: ${issue.message}`).join('\n');
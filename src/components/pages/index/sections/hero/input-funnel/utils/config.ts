@@ -0,0 +1,227 @@
+// Funnel configuration: the desktop and mobile lane layouts and the fixed scene setup shared by
+// every funnel. What flows through it comes from the content manifests
+
+// ============================================================================
+// CONSTANTES GLOBAIS
+// ============================================================================
+
+export const MOBILE_BREAKPOINT = 768;
+export const Y_OFFSET = -1.5;
+export const Z_INDEX_SPACING = 0.01;
+export const Z_OFFSET_RIGHT = 100;
+export const MIN_SCALE = 0.2;
+export const MIN_OPACITY = 0.01;
+export const CURVATURE_FACTOR = 2.0;
+export const SEEDED_RANDOM_MULTIPLIER = 10000;
+
+// Constantes compartilhadas entre desktop e mobile
+const COMMON_LANE_VARIATION_FACTOR = 0.6;
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+// Desktop objects enter from both sides, mobile ones rise from the bottom
+export type DesktopFunnelDirection = "left-to-right" | "right-to-left";
+export type FunnelDirection = DesktopFunnelDirection | "bottom-to-top";
+
+export type FunnelMode = "desktop" | "mobile";
+
+export interface DesktopFunnelConfig {
+  // Start distances used after updateConfig, e.g. from the tuning panel. On start and resize the
+  // viewport size sets them
+  initial: { x: number; y: number };
+  objectsPerTexture: number; // per side
+  numLanes: { y: number; x: number };
+  xLaneVariance: number;
+  xLaneIndexMultiplier: number;
+  yLaneVariationFactor: number;
+  xLaneVariationFactor: number;
+  yLaneEdgeConcentration: number; // 0 spreads objects evenly over the lanes, 1 pulls them to the outer ones
+  opacityFadeStart: number; // |x| where objects start fading into the center
+  noiseScale: number;
+  loopDurationMs: number;
+  seeds: {
+    left: number;
+    right: number;
+    repetition: number;
+    yLane: number;
+    yLaneRepetition: number;
+    xLane: number;
+    xLaneRepetition: number;
+    uniformLeft: number;
+    uniformRight: number;
+  };
+  distributionY: {
+    gaussianU1: number;
+    gaussianU2: number;
+    gaussianFactor: number;
+    layerVariation: number;
+    layerVariationFactor: number;
+    spiralTurns: number;
+  };
+}
+
+export interface MobileFunnelConfig {
+  yDistance: number;
+  yOffset: number;
+  xVariance: number;
+  xOffset: number;
+  textureCount: number; // textures used, from the start of the list
+  numLanes: { y: number; x: number };
+  yLaneVariationFactor: number;
+  xLaneVariationFactor: number;
+  yStartRangeMultiplier: number;
+  opacityFadeStart: number; // 0-1 of the way up
+  minOpacity: number;
+  noiseScale: number;
+  scaleMin: number;
+  fadeEaseExponent: number;
+  loopDurationMs: number;
+  maxPixelRatio: number;
+  seeds: {
+    xVariation: number;
+    offset: number;
+    yLane: number;
+    yLaneOffset: number;
+  };
+  // Height left to the funnel so it doesn't run into the notifications
+  height: {
+    availablePercent: number;
+    maxPx: number;
+    toUnitsDivisor: number;
+  };
+}
+
+// ============================================================================
+// CONSTANTES POR PLATAFORMA
+// ============================================================================
+
+export const DEFAULT_DESKTOP_CONFIG: DesktopFunnelConfig = {
+  initial: { x: 8, y: 8.5 },
+  objectsPerTexture: 3,
+  numLanes: {
+    y: 4,
+    x: 5,
+  },
+  xLaneVariance: 1.0,
+  xLaneIndexMultiplier: 2,
+  yLaneVariationFactor: 1,
+  xLaneVariationFactor: 0.4,
+  yLaneEdgeConcentration: 0.5,
+  opacityFadeStart: 3,
+  noiseScale: 0.0001,
+  loopDurationMs: 80000,
+  seeds: {
+    left: 6234,
+    right: 7636,
+    repetition: 1234,
+    yLane: 627,
+    yLaneRepetition: 555,
+    xLane: 777,
+    xLaneRepetition: 333,
+    uniformLeft: 123,
+    uniformRight: 789,
+  },
+  distributionY: {
+    gaussianU1: 1000,
+    gaussianU2: 2000,
+    gaussianFactor: 0.5,
+    layerVariation: 3000,
+    layerVariationFactor: 0.3,
+    spiralTurns: 2,
+  },
+};
+
+export const DEFAULT_MOBILE_CONFIG: MobileFunnelConfig = {
+  yDistance: 2.1,
+  yOffset: 0,
+  xVariance: 2,
+  xOffset: -0.3,
+  textureCount: 25,
+  numLanes: {
+    y: 5,
+    x: 3,
+  },
+  yLaneVariationFactor: COMMON_LANE_VARIATION_FACTOR,
+  xLaneVariationFactor: COMMON_LANE_VARIATION_FACTOR,
+  yStartRangeMultiplier: 1.5,
+  opacityFadeStart: 0.5,
+  minOpacity: 0.1,
+  noiseScale: 0.01,
+  scaleMin: 0.4,
+  fadeEaseExponent: 1.5,
+  loopDurationMs: 20000,
+  maxPixelRatio: 2,
+  seeds: {
+    xVariation: 345,
+    offset: 678,
+    yLane: 678,
+    yLaneOffset: 9999,
+  },
+  height: {
+    availablePercent: 0.4,
+    maxPx: 500,
+    toUnitsDivisor: 100,
+  },
+};
+
+// ============================================================================
+// CONSTANTES DE VIEWPORT
+// ============================================================================
+
+export const VIEWPORT_CONFIG = {
+  base: { width: 1440, height: 900 },
+  distance: {
+    baseX: 10,
+    baseY: 8,
+    minX: 6,
+    maxX: 12,
+    minY: 2,
+    maxY: 10,
+  },
+} as const;
+
+// ============================================================================
+// CONSTANTES DE CANVAS E RENDERER
+// ============================================================================
+
+export const CANVAS_CONFIG = {
+  paddingOffset: 32,
+  minDimension: 1,
+  init: {
+    maxRetries: 10,
+    retryDelayMs: 100,
+  },
+} as const;
+
+export const CAMERA_CONFIG = {
+  fov: 50,
+  near: 0.1,
+  far: 1000,
+  positionZ: 8,
+} as const;
+
+export const RENDERER_CONFIG = {
+  clearColor: 0x000000,
+  clearAlpha: 0,
+} as const;
+
+// Texture atlas every funnel item is packed into, see texture-atlas.ts
+export const ATLAS_CONFIG = {
+  maxSize: 4096, // px, lowered to the renderer's max texture size
+  maxItemHeight: 256, // px, taller images are scaled down
+  padding: 8, // px between images, keeps mipmaps from bleeding into neighbours
+  shrinkFactor: 0.8, // applied to every image until they all fit
+} as const;
+
+// ============================================================================
+// CONSTANTES DE OBSERVERS E TIMING
+// ============================================================================
+
+export const OBSERVER_CONFIG = {
+  intersectionThreshold: 0.1,
+  resizeDebounceMs: 150,
+  orientationChangeDelayMs: 100,
+  distanceChangeThreshold: 0.1,
+} as const;
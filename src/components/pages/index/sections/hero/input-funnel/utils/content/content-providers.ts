@@ -0,0 +1,234 @@
+import * as THREE from "three";
+
+// What flows through the funnel. Each item names a provider by `type` that turns it into a
+// texture: product photos, text cards such as WhatsApp message snippets, SVG icons or small HTML
+// snippets. More types can be added at runtime with registerContentProvider
+
+interface BaseContentItem {
+  width: number; // plane width in scene units, the height follows the texture's aspect ratio
+}
+
+export interface ImageContentItem extends BaseContentItem {
+  type: "image";
+  src: string;
+}
+
+export interface TextCardStyle {
+  background: string;
+  color: string;
+  titleColor: string;
+  fontFamily: string; // loaded web fonts only, see document.fonts
+  fontSize: number; // px
+  titleFontSize: number; // px
+  lineHeight: number; // multiple of the font size
+  padding: number; // px
+  radius: number; // px
+  cardWidth: number; // px, the text wraps inside it
+}
+
+export interface TextCardContentItem extends BaseContentItem {
+  type: "text-card";
+  text: string;
+  title?: string; // e.g. the sender of a message
+  style?: Partial<TextCardStyle>;
+}
+
+export interface SvgContentItem extends BaseContentItem {
+  type: "svg";
+  svg: string; // markup of a whole <svg> element
+  color?: string; // replaces currentColor
+}
+
+export interface HtmlContentItem extends BaseContentItem {
+  type: "html";
+  html: string; // well-formed XHTML with inline styles, no external resources
+  size: { width: number; height: number }; // px the snippet is laid out in
+}
+
+// Items of types added with registerContentProvider
+export interface CustomContentItem extends BaseContentItem {
+  type: string & {};
+  [key: string]: unknown;
+}
+
+export type FunnelContentItem =
+  | ImageContentItem
+  | TextCardContentItem
+  | SvgContentItem
+  | HtmlContentItem
+  | CustomContentItem;
+
+export interface FunnelContentProvider<Item extends { type: string } = FunnelContentItem> {
+  // Texture of the item. Its image's width and height give the aspect ratio. Rejects when the
+  // item can't be drawn, the funnel then skips it
+  load: (item: Item) => Promise<THREE.Texture>;
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Longest side SVG icons are rasterized at, in pixels
+const SVG_RASTER_SIZE = 256;
+
+const DEFAULT_TEXT_CARD_STYLE: TextCardStyle = {
+  background: "#ffffff",
+  color: "#1a1a1a",
+  titleColor: "#2E15FE",
+  fontFamily: "suisse-intl, sans-serif",
+  fontSize: 26,
+  titleFontSize: 20,
+  lineHeight: 1.3,
+  padding: 24,
+  radius: 24,
+  cardWidth: 440,
+};
+
+const providers = new Map<string, FunnelContentProvider>();
+
+// Adds a provider, or replaces the one registered under `type`
+export function registerContentProvider<Item extends { type: string }>(
+  type: Item["type"],
+  provider: FunnelContentProvider<Item>
+): void {
+  providers.set(type, provider as unknown as FunnelContentProvider);
+}
+
+export function getContentProvider(type: string): FunnelContentProvider | undefined {
+  return providers.get(type);
+}
+
+export function getContentTypes(): string[] {
+  return [...providers.keys()];
+}
+
+export function loadContentTexture(item: FunnelContentItem): Promise<THREE.Texture> {
+  const provider = providers.get(item.type);
+  if (!provider) return Promise.reject(new Error(`No funnel content provider for "${item.type}"`));
+  return provider.load(item);
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.decoding = "async";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Image could not be loaded: ${src.slice(0, 80)}`));
+    image.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas unavailable");
+  return { canvas, context };
+}
+
+// SVG markup drawn into a canvas, `width` x `height` or the image's own size scaled to fit SVG_RASTER_SIZE
+async function rasterizeSvg(svg: string, width?: number, height?: number): Promise<HTMLCanvasElement> {
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+  const naturalWidth = width ?? (image.naturalWidth || SVG_RASTER_SIZE);
+  const naturalHeight = height ?? (image.naturalHeight || SVG_RASTER_SIZE);
+  const scale = width ? 1 : SVG_RASTER_SIZE / Math.max(naturalWidth, naturalHeight);
+
+  const { canvas, context } = createCanvas(naturalWidth * scale, naturalHeight * scale);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Words of `text` in lines no wider than `maxWidth`, explicit line breaks kept
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+registerContentProvider<ImageContentItem>("image", {
+  load: (item) => new THREE.TextureLoader().loadAsync(item.src),
+});
+
+registerContentProvider<SvgContentItem>("svg", {
+  load: async (item) => {
+    const svg = item.color ? item.svg.replaceAll("currentColor", item.color) : item.svg;
+    return new THREE.CanvasTexture(await rasterizeSvg(svg));
+  },
+});
+
+registerContentProvider<TextCardContentItem>("text-card", {
+  load: async (item) => {
+    const style = { ...DEFAULT_TEXT_CARD_STYLE, ...item.style };
+    const bodyFont = `${style.fontSize}px ${style.fontFamily}`;
+    const titleFont = `600 ${style.titleFontSize}px ${style.fontFamily}`;
+
+    // Measuring before the web font arrives would wrap with the fallback's widths
+    await Promise.all([document.fonts.load(bodyFont), item.title ? document.fonts.load(titleFont) : null]);
+
+    const textWidth = style.cardWidth - style.padding * 2;
+    const measure = createCanvas(1, 1).context;
+    measure.font = bodyFont;
+    const lines = wrapText(measure, item.text, textWidth);
+
+    const titleHeight = item.title ? style.titleFontSize * style.lineHeight : 0;
+    const bodyLineHeight = style.fontSize * style.lineHeight;
+    const height = style.padding * 2 + titleHeight + lines.length * bodyLineHeight;
+
+    const { canvas, context } = createCanvas(style.cardWidth, height);
+    context.fillStyle = style.background;
+    context.beginPath();
+    context.roundRect(0, 0, canvas.width, canvas.height, style.radius);
+    context.fill();
+
+    context.textBaseline = "top";
+    let y = style.padding;
+    if (item.title) {
+      context.font = titleFont;
+      context.fillStyle = style.titleColor;
+      context.fillText(item.title, style.padding, y, textWidth);
+      y += titleHeight;
+    }
+
+    context.font = bodyFont;
+    context.fillStyle = style.color;
+    for (const line of lines) {
+      context.fillText(line, style.padding, y + (bodyLineHeight - style.fontSize) / 2);
+      y += bodyLineHeight;
+    }
+
+    return new THREE.CanvasTexture(canvas);
+  },
+});
+
+// Drawn through an SVG foreignObject, so only markup and inline styles make it into the image
+registerContentProvider<HtmlContentItem>("html", {
+  load: async (item) => {
+    const { width, height } = item.size;
+    const svg =
+      `<svg xmlns="${SVG_NS}" width="${width}" height="${height}">` +
+      `<foreignObject width="100%" height="100%">` +
+      `<div xmlns="http://www.w3.org/1999/xhtml">${item.html}</div>` +
+      `</foreignObject></svg>`;
+    const canvas = await rasterizeSvg(svg, width, height);
+
+    // Safari taints a canvas that drew a foreignObject, and one tainted image fails the whole
+    // atlas upload. Reading a pixel throws in that case
+    try {
+      canvas.getContext("2d")?.getImageData(0, 0, 1, 1);
+    } catch {
+      throw new Error("HTML content can't be drawn to a canvas in this browser");
+    }
+    return new THREE.CanvasTexture(canvas);
+  },
+});
@@ -0,0 +1,120 @@
+import type { DesktopFunnelConfig, MobileFunnelConfig } from "../config";
+import type { FunnelContentItem } from "./content-providers";
+
+// What a vertical's landing page sends through the funnel, e.g. a food distributor's SKUs or a
+// building-material distributor's orders, and optionally its own lanes. Pages pick one by name
+// (the funnel's `vertical` prop) or load one from JSON with loadFunnelManifest
+
+export interface FunnelManifest {
+  label: string;
+  items: FunnelContentItem[];
+  // Over the default layouts, nested objects go whole
+  desktop?: Partial<DesktopFunnelConfig>;
+  mobile?: Partial<MobileFunnelConfig>;
+}
+
+export const DEFAULT_FUNNEL_VERTICAL = "hero";
+
+const manifests = new Map<string, FunnelManifest>();
+
+// Adds a manifest, or replaces the one registered under `vertical`
+export function registerFunnelManifest(vertical: string, manifest: FunnelManifest): void {
+  manifests.set(vertical, manifest);
+}
+
+export function getFunnelManifest(vertical: string): FunnelManifest | undefined {
+  return manifests.get(vertical);
+}
+
+export function getFunnelVerticals(): string[] {
+  return [...manifests.keys()];
+}
+
+// Fetches a manifest file. Throws when it can't be loaded or has no items
+export async function loadFunnelManifest(url: string): Promise<FunnelManifest> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Funnel manifest ${url} could not be loaded: ${response.status}`);
+
+  const manifest = (await response.json()) as Partial<FunnelManifest>;
+  if (!Array.isArray(manifest.items) || manifest.items.length === 0) {
+    throw new Error(`Funnel manifest ${url} has no items`);
+  }
+  if (manifest.items.some((item) => typeof item?.type !== "string" || typeof item.width !== "number")) {
+    throw new Error(`Funnel manifest ${url} has items without a type or width`);
+  }
+
+  return { ...manifest, label: manifest.label ?? url } as FunnelManifest;
+}
+
+// Logos of the data sources flowing into the home page hero
+registerFunnelManifest(DEFAULT_FUNNEL_VERTICAL, {
+  label: "Home",
+  items: [
+    { type: "image", src: "/assets/medias/index/hero/image-01.png", width: 1.0 },
+    { type: "image", src: "/assets/medias/index/hero/image-02.png", width: 0.8 },
+    { type: "image", src: "/assets/medias/index/hero/image-03.png", width: 1.2 },
+    { type: "image", src: "/assets/medias/index/hero/image-04.png", width: 0.9 },
+    { type: "image", src: "/assets/medias/index/hero/image-05.png", width: 1.1 },
+    { type: "image", src: "/assets/medias/index/hero/image-06.png", width: 0.7 },
+    { type: "image", src: "/assets/medias/index/hero/image-07.png", width: 1.3 },
+    { type: "image", src: "/assets/medias/index/hero/image-08.png", width: 0.8 },
+    { type: "image", src: "/assets/medias/index/hero/image-09.png", width: 1.0 },
+    { type: "image", src: "/assets/medias/index/hero/image-10.png", width: 0.9 },
+    { type: "image", src: "/assets/medias/index/hero/image-11.png", width: 1.1 },
+    { type: "image", src: "/assets/medias/index/hero/image-12.png", width: 0.6 },
+    { type: "image", src: "/assets/medias/index/hero/image-13.png", width: 1.2 },
+    { type: "image", src: "/assets/medias/index/hero/image-14.png", width: 0.8 },
+    { type: "image", src: "/assets/medias/index/hero/image-15.png", width: 1.0 },
+    { type: "image", src: "/assets/medias/index/hero/image-16.png", width: 0.9 },
+    { type: "image", src: "/assets/medias/index/hero/image-17.png", width: 1.1 },
+  ],
+});
+
+const BOX_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">' +
+  '<path d="M3 7.5 12 3l9 4.5v9L12 21l-9-4.5z"/><path d="M3 7.5 12 12l9-4.5M12 12v9"/></svg>';
+
+const TRUCK_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">' +
+  '<path d="M2 6h11v10H2zM13 9h4l4 4v3h-8z"/><circle cx="6" cy="17.5" r="1.5"/><circle cx="17" cy="17.5" r="1.5"/></svg>';
+
+// Orders as they reach a food distributor: WhatsApp messages, a spreadsheet row and catalog icons
+registerFunnelManifest("food-distribution", {
+  label: "Distribuidora de alimentos",
+  items: [
+    {
+      type: "text-card",
+      title: "Mercado Bom Preço",
+      text: "Bom dia! Manda 20 fardos de arroz 5kg e 12 caixas de óleo de soja, por favor",
+      width: 1.3,
+    },
+    { type: "svg", svg: BOX_ICON, color: "#2E15FE", width: 0.6 },
+    {
+      type: "text-card",
+      title: "Padaria Central",
+      text: "Preciso de 30 sacos de farinha de trigo até quinta",
+      width: 1.2,
+    },
+    {
+      type: "html",
+      html:
+        '<div style="font: 22px sans-serif; background: #ffffff; border-radius: 16px; padding: 16px 20px; color: #1a1a1a">' +
+        '<b style="color: #2E15FE">Pedido #4821</b><br/>Feijão carioca 1kg · 40 un.<br/>Açúcar refinado 5kg · 25 un.</div>',
+      size: { width: 360, height: 140 },
+      width: 1.1,
+    },
+    { type: "svg", svg: TRUCK_ICON, color: "#2E15FE", width: 0.7 },
+    {
+      type: "text-card",
+      title: "Restaurante Sabor & Cia",
+      text: "Repete o pedido da semana passada, mas com o dobro de tomate",
+      width: 1.3,
+    },
+    {
+      type: "text-card",
+      title: "Empório Vila Nova",
+      text: "Tem café 500g em estoque? Se tiver, 15 caixas",
+      width: 1.1,
+    },
+  ],
+});
@@ -0,0 +1,243 @@
+import * as THREE from "three";
+import {
+  CURVATURE_FACTOR,
+  MIN_SCALE,
+  SEEDED_RANDOM_MULTIPLIER,
+  VIEWPORT_CONFIG,
+  type DesktopFunnelConfig,
+  type DesktopFunnelDirection,
+  type MobileFunnelConfig,
+} from "./config";
+
+// Where funnel objects start and how they move: lane distributions, positions along the funnel,
+// scale and opacity. Pure functions of the config and the current distances
+
+// Half extents of the desktop funnel, from the sides to the center and from the center up and down
+export interface FunnelDistances {
+  x: number;
+  y: number;
+}
+
+// Seeded random function for deterministic positioning
+export function seededRandom(seed: number): number {
+  const x = Math.sin(seed) * SEEDED_RANDOM_MULTIPLIER;
+  return x - Math.floor(x);
+}
+
+// Calculate dynamic distances based on viewport size
+export function calculateDistances(width: number, height: number): FunnelDistances {
+  // Calculate scaling factors
+  const widthScale = width / VIEWPORT_CONFIG.base.width;
+  const heightScale = height / VIEWPORT_CONFIG.base.height;
+
+  // Scale distances proportionally with limits
+  const x = THREE.MathUtils.clamp(
+    VIEWPORT_CONFIG.distance.baseX * Math.sqrt(widthScale),
+    VIEWPORT_CONFIG.distance.minX,
+    VIEWPORT_CONFIG.distance.maxX
+  );
+
+  const y = THREE.MathUtils.clamp(
+    VIEWPORT_CONFIG.distance.baseY * Math.sqrt(heightScale),
+    VIEWPORT_CONFIG.distance.minY,
+    VIEWPORT_CONFIG.distance.maxY
+  );
+
+  return { x, y };
+}
+
+// Calculate adjusted mobile Y distance to avoid overlapping with notifications
+export function getAdjustedMobileYDistance(mobile: MobileFunnelConfig): number {
+  const viewportHeight = window.innerHeight;
+  const availableHeight = Math.min(viewportHeight * mobile.height.availablePercent, mobile.height.maxPx);
+  return Math.min(mobile.yDistance, availableHeight / mobile.height.toUnitsDivisor);
+}
+
+export function getImprovedYDistribution(
+  desktop: DesktopFunnelConfig,
+  distances: FunnelDistances,
+  index: number,
+  direction: DesktopFunnelDirection,
+  totalObjects: number,
+  distributionType: "uniform" | "gaussian" | "layered" | "spiral" = "layered"
+): number {
+  const yDistance = distances.y;
+  const seedMultiplier = direction === "left-to-right" ? desktop.seeds.uniformLeft : desktop.seeds.uniformRight;
+  const seed = index * seedMultiplier;
+  const random = seededRandom(seed);
+
+  switch (distributionType) {
+    case "uniform":
+      return THREE.MathUtils.mapLinear(random, 0, 1, -yDistance, yDistance);
+
+    case "gaussian": {
+      const u1 = seededRandom(seed + desktop.distributionY.gaussianU1);
+      const u2 = seededRandom(seed + desktop.distributionY.gaussianU2);
+      const gaussian = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return THREE.MathUtils.clamp(
+        gaussian * (yDistance * desktop.distributionY.gaussianFactor),
+        -yDistance,
+        yDistance
+      );
+    }
+
+    case "layered": {
+      const numLayers = Math.ceil(Math.sqrt(totalObjects / 2));
+      const layerHeight = (yDistance * 2) / numLayers;
+      const layerIndex = Math.floor(random * numLayers);
+      const layerCenter = -yDistance + (layerIndex + 0.5) * layerHeight;
+      const layerVariation =
+        seededRandom(seed + desktop.distributionY.layerVariation) * layerHeight * desktop.distributionY.layerVariationFactor;
+      return layerCenter + layerVariation;
+    }
+
+    case "spiral": {
+      const angle = (index / totalObjects) * desktop.distributionY.spiralTurns * Math.PI * 2;
+      const spiralRadius = (index / totalObjects) * yDistance;
+      return Math.sin(angle + random * Math.PI) * spiralRadius;
+    }
+
+    default:
+      return THREE.MathUtils.mapLinear(random, 0, 1, -yDistance, yDistance);
+  }
+}
+
+export function getDesktopYLaneDistribution(
+  desktop: DesktopFunnelConfig,
+  distances: FunnelDistances,
+  index: number,
+  repetitionIndex: number,
+  numLanes: number
+): number {
+  const seed = index * desktop.seeds.yLane + repetitionIndex * desktop.seeds.yLaneRepetition;
+  const random = seededRandom(seed);
+
+  let laneIndex: number;
+
+  if (desktop.yLaneEdgeConcentration > 0) {
+    const concentration = desktop.yLaneEdgeConcentration;
+
+    let weightedPosition: number;
+
+    if (concentration < 0.5) {
+      const curvePower = 1 + concentration * 4;
+      weightedPosition = random < 0.5
+        ? Math.pow(random * 2, curvePower) / 2
+        : 1 - Math.pow((1 - random) * 2, curvePower) / 2;
+    } else {
+      const strongConcentration = (concentration - 0.5) * 2;
+      const distanceFromCenter = Math.abs(random - 0.5) * 2;
+      const edgePull = Math.pow(distanceFromCenter, 1 / (1 + strongConcentration * 3));
+
+      if (random < 0.5) {
+        weightedPosition = 0.5 - edgePull * 0.5;
+      } else {
+        weightedPosition = 0.5 + edgePull * 0.5;
+      }
+    }
+
+    weightedPosition = THREE.MathUtils.clamp(weightedPosition, 0, 1);
+    laneIndex = Math.floor(weightedPosition * numLanes);
+  } else {
+    laneIndex = Math.floor(random * numLanes);
+  }
+
+  laneIndex = THREE.MathUtils.clamp(laneIndex, 0, numLanes - 1);
+
+  const laneHeight = (distances.y * 2) / numLanes;
+  const laneCenter = -distances.y + (laneIndex + 0.5) * laneHeight;
+
+  const variationSeed = seed + 10000;
+  const laneVariation = (seededRandom(variationSeed) - 0.5) * laneHeight * desktop.yLaneVariationFactor;
+
+  return laneCenter + laneVariation;
+}
+
+export function getDesktopXLaneDistribution(
+  desktop: DesktopFunnelConfig,
+  index: number,
+  repetitionIndex: number,
+  baseX: number,
+  numLanes: number
+): number {
+  const laneIndex = (index * desktop.xLaneIndexMultiplier + repetitionIndex) % numLanes;
+
+  const laneWidth = (desktop.xLaneVariance * 2) / numLanes;
+  const laneOffset = -desktop.xLaneVariance + (laneIndex + 0.5) * laneWidth;
+
+  const seed = index * desktop.seeds.xLane + repetitionIndex * desktop.seeds.xLaneRepetition;
+  const laneVariation = (seededRandom(seed) - 0.5) * laneWidth * desktop.xLaneVariationFactor;
+
+  return baseX + laneOffset + laneVariation;
+}
+
+export function getMobileYLaneDistribution(
+  mobile: MobileFunnelConfig,
+  index: number,
+  totalObjects: number,
+  numLanes: number,
+  adjustedYDistance: number
+): number {
+  const laneIndex = Math.floor((index * numLanes) / totalObjects);
+
+  const startRange = adjustedYDistance * mobile.yStartRangeMultiplier;
+  const laneHeight = startRange / numLanes;
+  const laneCenter = -adjustedYDistance - (laneIndex + 0.5) * laneHeight;
+
+  const seed = index * mobile.seeds.yLane + mobile.seeds.yLaneOffset;
+  const laneVariation = (seededRandom(seed) - 0.5) * laneHeight * mobile.yLaneVariationFactor;
+
+  return laneCenter + laneVariation;
+}
+
+// Calculate X position based on direction and progress
+export function calculateXPosition(
+  distances: FunnelDistances,
+  direction: DesktopFunnelDirection,
+  progress: number
+): number {
+  const startX = direction === "left-to-right" ? -distances.x : distances.x;
+  return THREE.MathUtils.mapLinear(progress, 0, 1, startX, 0);
+}
+
+// Calculate Y position with convergence and noise
+export function calculateYPosition(
+  distances: FunnelDistances,
+  direction: DesktopFunnelDirection,
+  x: number,
+  startY: number,
+  noiseOffset: number
+): number {
+  const startX = direction === "left-to-right" ? -distances.x : distances.x;
+  const normalizedX = THREE.MathUtils.mapLinear(x, startX, 0, 0, 1);
+
+  // Aplicar transformação parabólica para criar curva de convergência
+  const curveY = startY * Math.pow(1 - normalizedX, CURVATURE_FACTOR);
+
+  return curveY + noiseOffset;
+}
+
+// Calculate scale based on position (desktop)
+export function calculateScale(distances: FunnelDistances, direction: DesktopFunnelDirection, x: number): number {
+  const startX = direction === "left-to-right" ? -distances.x : distances.x;
+  return THREE.MathUtils.mapLinear(x, startX, 0, 1, MIN_SCALE);
+}
+
+// Mobile-specific calculation functions
+export function calculateMobileYPosition(mobile: MobileFunnelConfig, progress: number, startY: number): number {
+  const adjustedYDistance = getAdjustedMobileYDistance(mobile);
+
+  return THREE.MathUtils.mapLinear(progress, 0, 1, startY, adjustedYDistance);
+}
+
+export function calculateMobileScale(mobile: MobileFunnelConfig, y: number): number {
+  const adjustedYDistance = getAdjustedMobileYDistance(mobile);
+
+  const normalizedY = THREE.MathUtils.clamp(
+    THREE.MathUtils.mapLinear(y, -adjustedYDistance, adjustedYDistance, 0, 1),
+    0,
+    1
+  );
+  const easedProgress = 1 - Math.pow(1 - normalizedY, 2);
+  return THREE.MathUtils.mapLinear(easedProgress, 0, 1, 1, mobile.scaleMin);
+}
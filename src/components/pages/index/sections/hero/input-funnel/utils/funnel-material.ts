@@ -0,0 +1,55 @@
+import * as THREE from "three";
+
+// MeshBasicMaterial for the funnel's instanced planes. Per instance it reads the atlas region
+// (instanceUv: u, v, width, height), the plane size in scene units (instanceSize), the animated
+// scale (instanceScale) and opacity (instanceOpacity)
+export class FunnelMaterial extends THREE.MeshBasicMaterial {
+  constructor(atlas: THREE.Texture) {
+    super({
+      map: atlas,
+      side: THREE.DoubleSide,
+      transparent: true,
+    });
+
+    this.onBeforeCompile = (shader) => {
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          "#include <common>",
+          `#include <common>
+          attribute vec4 instanceUv;
+          attribute vec2 instanceSize;
+          attribute float instanceScale;
+          attribute float instanceOpacity;
+          varying float vInstanceOpacity;`
+        )
+        .replace(
+          "#include <uv_vertex>",
+          `#include <uv_vertex>
+          vMapUv = instanceUv.xy + vMapUv * instanceUv.zw;`
+        )
+        .replace(
+          "#include <begin_vertex>",
+          `#include <begin_vertex>
+          transformed.xy *= instanceSize * instanceScale;
+          vInstanceOpacity = instanceOpacity;`
+        );
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          "#include <common>",
+          `#include <common>
+          varying float vInstanceOpacity;`
+        )
+        .replace(
+          "#include <color_fragment>",
+          `#include <color_fragment>
+          diffuseColor.a *= vInstanceOpacity;`
+        );
+    };
+  }
+
+  // Shader differs from the stock MeshBasicMaterial, keep a separate program
+  public customProgramCacheKey(): string {
+    return "input-funnel";
+  }
+}
@@ -0,0 +1,722 @@
+import * as THREE from "three";
+import { createNoise2D, type NoiseFunction2D } from "simplex-noise";
+import { onReducedMotionChange, prefersReducedMotion } from "@/utils/reduced-motion";
+import {
+  ATLAS_CONFIG,
+  CAMERA_CONFIG,
+  CANVAS_CONFIG,
+  DEFAULT_DESKTOP_CONFIG,
+  DEFAULT_MOBILE_CONFIG,
+  MIN_OPACITY,
+  MOBILE_BREAKPOINT,
+  OBSERVER_CONFIG,
+  RENDERER_CONFIG,
+  Y_OFFSET,
+  Z_INDEX_SPACING,
+  Z_OFFSET_RIGHT,
+  type DesktopFunnelConfig,
+  type DesktopFunnelDirection,
+  type FunnelDirection,
+  type FunnelMode,
+  type MobileFunnelConfig,
+} from "./config";
+import {
+  calculateDistances,
+  calculateMobileScale,
+  calculateMobileYPosition,
+  calculateScale,
+  calculateXPosition,
+  calculateYPosition,
+  getAdjustedMobileYDistance,
+  getDesktopXLaneDistribution,
+  getDesktopYLaneDistribution,
+  getMobileYLaneDistribution,
+  seededRandom,
+  type FunnelDistances,
+} from "./funnel-layout";
+import { createTextureAtlas, type AtlasRegion } from "./texture-atlas";
+import { FunnelMaterial } from "./funnel-material";
+import { loadContentTexture, type FunnelContentItem } from "./content/content-providers";
+import { DEFAULT_FUNNEL_VERTICAL, getFunnelManifest } from "./content/manifests";
+
+export interface InputFunnelConfig {
+  canvas: HTMLCanvasElement;
+  content?: FunnelContentItem[]; // defaults to the home page hero's manifest
+  desktop?: DesktopFunnelConfig;
+  mobile?: MobileFunnelConfig;
+  mobileBreakpoint?: number; // viewport width in px up to which the mobile layout is used
+}
+
+// What updateConfig can change. Nested objects are replaced whole
+export type InputFunnelOptions = Omit<Required<InputFunnelConfig>, "canvas">;
+
+// One instance of the funnel's instanced mesh
+interface FunnelObject {
+  item: FunnelItem;
+  instance: number; // slot in the instance buffers, back to front
+  startPosition: { x: number; y: number; z: number };
+  offset: number;
+  direction: FunnelDirection;
+}
+
+// Loaded content item and its place in the atlas
+interface FunnelItem {
+  region: AtlasRegion;
+  width: number;
+  height: number;
+  index: number;
+}
+
+// Type guard to check if object is desktop type
+function isDesktopObject(object: FunnelObject): object is FunnelObject & { direction: DesktopFunnelDirection } {
+  return object.direction === "left-to-right" || object.direction === "right-to-left";
+}
+
+// Type guard to check if object is mobile type
+function isMobileObject(object: FunnelObject): object is FunnelObject & { direction: "bottom-to-top" } {
+  return object.direction === "bottom-to-top";
+}
+
+function getCanvasDimensions(canvas: HTMLCanvasElement): { width: number; height: number } {
+  const rect = canvas.getBoundingClientRect();
+  let width = rect.width || canvas.clientWidth;
+  let height = rect.height || canvas.clientHeight;
+
+  if (width <= 0 || height <= 0) {
+    const parent = canvas.parentElement;
+    if (parent) {
+      const parentRect = parent.getBoundingClientRect();
+      width = Math.max(parentRect.width - CANVAS_CONFIG.paddingOffset, CANVAS_CONFIG.minDimension);
+      height = Math.max(parentRect.height - CANVAS_CONFIG.paddingOffset, CANVAS_CONFIG.minDimension);
+    }
+  }
+
+  return {
+    width: width || CANVAS_CONFIG.minDimension,
+    height: height || CANVAS_CONFIG.minDimension,
+  };
+}
+
+function isInViewport(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  return rect.top < window.innerHeight && rect.bottom > 0;
+}
+
+// Textures flowing into the center of a canvas: from both sides on desktop, from the bottom on
+// mobile. Pauses off screen and in background tabs, follows reduced motion and rebuilds its
+// lanes when the layout or the viewport size class changes
+export class InputFunnel {
+  private canvas: HTMLCanvasElement;
+  private options: InputFunnelOptions;
+  private noise: NoiseFunction2D = createNoise2D();
+
+  // Three.js components, created by start()
+  private renderer: THREE.WebGLRenderer | null = null;
+  private camera: THREE.PerspectiveCamera | null = null;
+  private scene = new THREE.Scene();
+  private atlas: THREE.Texture | null = null;
+  private items: FunnelItem[] = [];
+  private objects: FunnelObject[] = [];
+
+  // Single InstancedMesh draws every object in one call, per-instance atlas region, size, scale
+  // and opacity live in custom attributes
+  private instancedMesh: THREE.InstancedMesh | null = null;
+  private scaleAttribute: THREE.InstancedBufferAttribute | null = null;
+  private opacityAttribute: THREE.InstancedBufferAttribute | null = null;
+  private _tempMatrix = new THREE.Matrix4();
+
+  // Layout
+  private isMobile: boolean;
+  private distances: FunnelDistances;
+  private currentWidth: number = 0;
+  private currentHeight: number = 0;
+
+  // Playback, elapsed time is kept across pauses
+  private startTime: number = 0;
+  private elapsedMs: number = 0;
+  private animationFrameId: number | null = null;
+  private isAnimating: boolean = false;
+  private isManuallyPaused: boolean = false; // pause() holds until resume(), whatever the viewport does
+  private reducedMotion: boolean = prefersReducedMotion();
+  private isDisposed: boolean = false;
+  private textureLoadId: number = 0; // newer loads win over ones still in flight
+
+  // Observers and listeners, kept to remove them on dispose
+  private intersectionObserver: IntersectionObserver | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private unsubscribeReducedMotion: (() => void) | null = null;
+  private resizeTimeout: number | null = null;
+  private orientationTimeout: number | null = null;
+
+  constructor(config: InputFunnelConfig) {
+    this.canvas = config.canvas;
+    this.options = structuredClone({
+      content: config.content ?? getFunnelManifest(DEFAULT_FUNNEL_VERTICAL)?.items ?? [],
+      desktop: config.desktop ?? DEFAULT_DESKTOP_CONFIG,
+      mobile: config.mobile ?? DEFAULT_MOBILE_CONFIG,
+      mobileBreakpoint: config.mobileBreakpoint ?? MOBILE_BREAKPOINT,
+    });
+    this.isMobile = window.innerWidth <= this.options.mobileBreakpoint;
+    this.distances = { ...this.options.desktop.initial };
+  }
+
+  // Waits for the canvas to be laid out, loads the textures and starts playing once visible
+  public async start(): Promise<void> {
+    if (this.renderer || this.isDisposed) return;
+
+    const { width, height } = await this.waitForCanvasSize();
+    if (this.isDisposed) return;
+
+    // Calculate dynamic distances based on viewport size
+    this.distances = calculateDistances(width, height);
+    this.currentWidth = width;
+    this.currentHeight = height;
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+
+    this.renderer = new THREE.WebGLRenderer({
+      canvas: this.canvas,
+      antialias: !this.isMobile, // Disable antialiasing on mobile for performance
+      alpha: true,
+    });
+    this.renderer.setSize(width, height);
+    this.renderer.setPixelRatio(this.getPixelRatio());
+    this.renderer.setClearColor(RENDERER_CONFIG.clearColor, RENDERER_CONFIG.clearAlpha);
+    this.renderer.sortObjects = true;
+
+    this.camera = new THREE.PerspectiveCamera(CAMERA_CONFIG.fov, width / height, CAMERA_CONFIG.near, CAMERA_CONFIG.far);
+    this.camera.position.set(0, 0, CAMERA_CONFIG.positionZ);
+    this.camera.lookAt(0, 0, 0);
+
+    await this.loadTextures();
+    if (this.isDisposed) return;
+
+    this.createObjects();
+    this.setupObservers();
+
+    // Start animation initially only if canvas is visible
+    if (isInViewport(this.canvas)) this.play();
+  }
+
+  private async waitForCanvasSize(): Promise<{ width: number; height: number }> {
+    let retries = 0;
+    let dimensions = getCanvasDimensions(this.canvas);
+
+    while (
+      (dimensions.width <= CANVAS_CONFIG.minDimension || dimensions.height <= CANVAS_CONFIG.minDimension) &&
+      retries < CANVAS_CONFIG.init.maxRetries
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, CANVAS_CONFIG.init.retryDelayMs));
+      dimensions = getCanvasDimensions(this.canvas);
+      retries++;
+    }
+
+    return dimensions;
+  }
+
+  // Loads the content and packs it into the atlas. Items whose content fails to load are skipped
+  private async loadTextures(): Promise<void> {
+    const loadId = ++this.textureLoadId;
+
+    const loaded = await Promise.all(
+      this.options.content.map(async (item, index) => {
+        try {
+          return { item, index, texture: await loadContentTexture(item) };
+        } catch (error) {
+          console.error(`Error loading funnel item ${index + 1} (${item.type}):`, error);
+          return null;
+        }
+      })
+    );
+
+    const textures = loaded.filter((data) => data !== null);
+    if (loadId !== this.textureLoadId || this.isDisposed || !this.renderer) {
+      textures.forEach(({ texture }) => texture.dispose());
+      return;
+    }
+
+    // The sources are only drawn into the atlas, never uploaded themselves
+    const maxSize = Math.min(ATLAS_CONFIG.maxSize, this.renderer.capabilities.maxTextureSize);
+    const { texture: atlas, regions } = createTextureAtlas(
+      textures.map(({ texture }) => ({ image: texture.image, width: texture.image.width, height: texture.image.height })),
+      maxSize
+    );
+    textures.forEach(({ texture }) => texture.dispose());
+
+    this.atlas?.dispose();
+    this.atlas = atlas;
+    this.items = textures.map(({ item, index, texture }, i) => ({
+      region: regions[i],
+      width: item.width,
+      height: item.width / (texture.image.width / texture.image.height),
+      index,
+    }));
+  }
+
+  // Create funnel object (desktop mode)
+  private createFunnelObject(
+    item: FunnelItem,
+    direction: DesktopFunnelDirection,
+    index: number,
+    totalObjects: number,
+    repetitionIndex: number = 0
+  ): FunnelObject {
+    const { desktop } = this.options;
+    const baseX = direction === "left-to-right" ? -this.distances.x : this.distances.x;
+    const x = getDesktopXLaneDistribution(desktop, index, repetitionIndex, baseX, desktop.numLanes.x);
+    const adjustedIndex = index + repetitionIndex * totalObjects;
+    const y = getDesktopYLaneDistribution(desktop, this.distances, index, repetitionIndex, desktop.numLanes.y);
+    const z = direction === "left-to-right"
+      ? Z_INDEX_SPACING * adjustedIndex
+      : Z_INDEX_SPACING * (adjustedIndex + Z_OFFSET_RIGHT);
+
+    const seedMultiplier = direction === "left-to-right" ? desktop.seeds.left : desktop.seeds.right;
+    const offsetSeed = adjustedIndex * seedMultiplier + repetitionIndex * desktop.seeds.repetition;
+
+    return {
+      item,
+      instance: 0,
+      startPosition: { x, y: y + Y_OFFSET, z },
+      offset: seededRandom(offsetSeed),
+      direction,
+    };
+  }
+
+  // Create mobile funnel object (bottom-to-top)
+  private createMobileFunnelObject(
+    item: FunnelItem,
+    index: number,
+    totalObjects: number
+  ): FunnelObject {
+    const { mobile } = this.options;
+    const laneIndex = index % mobile.numLanes.x;
+
+    const laneWidth = (mobile.xVariance * 2) / mobile.numLanes.x;
+    const laneCenter = -mobile.xVariance + (laneIndex + 0.5) * laneWidth;
+    const xVariation = (seededRandom(index * mobile.seeds.xVariation) - 0.5) * laneWidth * mobile.xLaneVariationFactor;
+    const x = laneCenter + xVariation;
+
+    // Usar altura ajustada para evitar sobreposição com notificações
+    const adjustedYDistance = getAdjustedMobileYDistance(mobile);
+
+    // Distribuir partículas em faixas Y com quantidades iguais
+    const y = getMobileYLaneDistribution(mobile, index, totalObjects, mobile.numLanes.y, adjustedYDistance);
+
+    const z = Z_INDEX_SPACING * index;
+
+    return {
+      item,
+      instance: 0,
+      startPosition: { x, y: y + mobile.yOffset, z },
+      offset: seededRandom(index * mobile.seeds.offset),
+      direction: "bottom-to-top",
+    };
+  }
+
+  // Rebuilds every object for the current mode, config and distances
+  private createObjects(): void {
+    this.clearObjects();
+
+    const mode = this.getMode();
+    const items = mode === "mobile" ? this.items.slice(0, this.options.mobile.textureCount) : this.items;
+
+    for (const item of items) {
+      if (mode === "desktop") {
+        for (let repetition = 0; repetition < this.options.desktop.objectsPerTexture; repetition++) {
+          this.objects.push(
+            this.createFunnelObject(item, "left-to-right", item.index, this.items.length, repetition),
+            this.createFunnelObject(item, "right-to-left", item.index, this.items.length, repetition)
+          );
+        }
+      } else {
+        this.objects.push(this.createMobileFunnelObject(item, item.index, items.length));
+      }
+    }
+
+    this.createInstancedMesh();
+  }
+
+  private createInstancedMesh(): void {
+    const count = this.objects.length;
+    if (count === 0 || !this.atlas) return;
+
+    // Instances draw in buffer order and z never changes, so sorting once blends them back to front
+    [...this.objects]
+      .sort((a, b) => a.startPosition.z - b.startPosition.z)
+      .forEach((object, instance) => (object.instance = instance));
+
+    const uvs = new Float32Array(count * 4);
+    const sizes = new Float32Array(count * 2);
+    for (const { item, instance } of this.objects) {
+      uvs.set([item.region.u, item.region.v, item.region.width, item.region.height], instance * 4);
+      sizes.set([item.width, item.height], instance * 2);
+    }
+
+    const geometry = new THREE.PlaneGeometry(1, 1);
+    this.scaleAttribute = new THREE.InstancedBufferAttribute(new Float32Array(count).fill(1), 1);
+    this.opacityAttribute = new THREE.InstancedBufferAttribute(new Float32Array(count).fill(1), 1);
+    this.scaleAttribute.setUsage(THREE.DynamicDrawUsage);
+    this.opacityAttribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute("instanceUv", new THREE.InstancedBufferAttribute(uvs, 4));
+    geometry.setAttribute("instanceSize", new THREE.InstancedBufferAttribute(sizes, 2));
+    geometry.setAttribute("instanceScale", this.scaleAttribute);
+    geometry.setAttribute("instanceOpacity", this.opacityAttribute);
+
+    this.instancedMesh = new THREE.InstancedMesh(geometry, new FunnelMaterial(this.atlas), count);
+    this.instancedMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    // Objects travel far beyond the unit plane's bounds
+    this.instancedMesh.frustumCulled = false;
+
+    for (const { instance, startPosition } of this.objects) {
+      this._tempMatrix.makeTranslation(startPosition.x, startPosition.y, startPosition.z);
+      this.instancedMesh.setMatrixAt(instance, this._tempMatrix);
+    }
+
+    this.scene.add(this.instancedMesh);
+  }
+
+  private clearObjects(): void {
+    if (this.instancedMesh) {
+      this.scene.remove(this.instancedMesh);
+      this.instancedMesh.geometry.dispose();
+      (this.instancedMesh.material as THREE.Material).dispose();
+      this.instancedMesh.dispose();
+      this.instancedMesh = null;
+    }
+    this.scaleAttribute = null;
+    this.opacityAttribute = null;
+    this.objects = [];
+  }
+
+  // Writes an object's frame into the instance buffers
+  private setInstance(object: FunnelObject, x: number, y: number, scale: number, opacity: number): void {
+    if (!this.instancedMesh || !this.scaleAttribute || !this.opacityAttribute) return;
+
+    this._tempMatrix.makeTranslation(x, y, object.startPosition.z);
+    this.instancedMesh.setMatrixAt(object.instance, this._tempMatrix);
+    this.scaleAttribute.setX(object.instance, scale);
+    this.opacityAttribute.setX(object.instance, opacity);
+  }
+
+  // Calculate noise offset for animation
+  private calculateNoiseOffset(progress: number, index: number, scale: number): number {
+    const noiseInput = progress * Math.PI * 2;
+    return this.noise(Math.cos(noiseInput) + index, Math.sin(noiseInput)) * scale;
+  }
+
+  // Animate individual object (desktop)
+  private updateObject(
+    object: FunnelObject & { direction: DesktopFunnelDirection },
+    index: number,
+    progress: number
+  ): void {
+    const { desktop } = this.options;
+    const { offset, direction, startPosition } = object;
+    const uniqueProgress = (progress + offset) % 1;
+
+    const x = calculateXPosition(this.distances, direction, uniqueProgress);
+    const yOffset = this.calculateNoiseOffset(uniqueProgress, index, desktop.noiseScale);
+    const y = calculateYPosition(this.distances, direction, x, startPosition.y, yOffset);
+
+    const scale = calculateScale(this.distances, direction, x);
+    const opacity = THREE.MathUtils.clamp(
+      THREE.MathUtils.mapLinear(Math.abs(x), desktop.opacityFadeStart, 0, 1, MIN_OPACITY),
+      MIN_OPACITY,
+      1
+    );
+
+    this.setInstance(object, x, y + Y_OFFSET, scale, opacity);
+  }
+
+  // Animate individual object (mobile)
+  private updateMobileObject(
+    object: FunnelObject & { direction: "bottom-to-top" },
+    index: number,
+    progress: number
+  ): void {
+    const { mobile } = this.options;
+    const { offset, startPosition } = object;
+    const uniqueProgress = (progress + offset) % 1;
+
+    const y = calculateMobileYPosition(mobile, uniqueProgress, startPosition.y);
+    const xOffset = this.calculateNoiseOffset(uniqueProgress, index, mobile.noiseScale);
+
+    // Usar altura ajustada para consistência
+    const adjustedYDistance = getAdjustedMobileYDistance(mobile);
+
+    const x = THREE.MathUtils.mapLinear(y, startPosition.y, adjustedYDistance, startPosition.x, 0) + xOffset;
+
+    const scale = calculateMobileScale(mobile, y);
+
+    // Curva de opacidade melhorada com fade suave nas extremidades
+    const normalizedY = THREE.MathUtils.clamp(Math.abs(y) / adjustedYDistance, 0, 1);
+    const fadeStart = mobile.opacityFadeStart;
+
+    let opacity: number;
+    if (normalizedY < fadeStart) {
+      opacity = 1;
+    } else {
+      // Usar ease-in para fade mais suave
+      const fadeProgress = (normalizedY - fadeStart) / (1 - fadeStart);
+      opacity = Math.max(1 - Math.pow(fadeProgress, mobile.fadeEaseExponent), mobile.minOpacity);
+    }
+
+    this.setInstance(object, x + mobile.xOffset, y + mobile.yOffset, scale, opacity);
+  }
+
+  private updateObjects(progress: number): void {
+    this.objects.forEach((object, index) => {
+      if (isMobileObject(object)) {
+        this.updateMobileObject(object, index, progress);
+      } else if (isDesktopObject(object)) {
+        this.updateObject(object, index, progress);
+      }
+    });
+
+    if (!this.instancedMesh || !this.scaleAttribute || !this.opacityAttribute) return;
+    this.instancedMesh.instanceMatrix.needsUpdate = true;
+    this.scaleAttribute.needsUpdate = true;
+    this.opacityAttribute.needsUpdate = true;
+  }
+
+  private getLoopDuration(): number {
+    return this.isMobile ? this.options.mobile.loopDurationMs : this.options.desktop.loopDurationMs;
+  }
+
+  private animate = (): void => {
+    if (!this.isAnimating || !this.renderer || !this.camera) return;
+
+    this.elapsedMs = Date.now() - this.startTime;
+    this.updateObjects((this.elapsedMs / this.getLoopDuration()) % 1);
+
+    this.renderer.render(this.scene, this.camera);
+    this.animationFrameId = requestAnimationFrame(this.animate);
+  };
+
+  // Reduced motion: one frame, objects keep their per-object offsets along the funnel
+  private renderStaticFrame(): void {
+    if (!this.renderer || !this.camera) return;
+    this.updateObjects(0);
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  private play(): void {
+    if (this.isManuallyPaused || this.isDisposed || !this.renderer) return;
+
+    if (this.reducedMotion) {
+      this.renderStaticFrame();
+      return;
+    }
+
+    if (!this.isAnimating) {
+      this.isAnimating = true;
+      this.startTime = Date.now() - this.elapsedMs;
+      this.animate();
+    }
+  }
+
+  private stop(): void {
+    if (!this.isAnimating) return;
+
+    this.isAnimating = false;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.elapsedMs = Date.now() - this.startTime;
+  }
+
+  private setupObservers(): void {
+    // IntersectionObserver to pause/resume animation when canvas is not visible
+    this.intersectionObserver = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            this.play();
+          } else {
+            this.stop();
+          }
+        });
+      },
+      { threshold: OBSERVER_CONFIG.intersectionThreshold }
+    );
+    this.intersectionObserver.observe(this.canvas);
+
+    // Page Visibility API to pause/resume when user switches tabs
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+
+    // Follow OS reduced motion changes live
+    this.unsubscribeReducedMotion = onReducedMotionChange((reduced) => {
+      this.reducedMotion = reduced;
+      this.stop();
+      if (isInViewport(this.canvas)) this.play();
+    });
+
+    if (typeof ResizeObserver !== "undefined") {
+      this.resizeObserver = new ResizeObserver(this.debouncedResize);
+      this.resizeObserver.observe(this.canvas);
+    }
+    window.addEventListener("resize", this.debouncedResize);
+    window.addEventListener("orientationchange", this.handleOrientationChange);
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.stop();
+    } else if (isInViewport(this.canvas)) {
+      // Check if canvas is in viewport before resuming
+      this.play();
+    }
+  };
+
+  // Debounce resize handler to avoid excessive calls
+  private debouncedResize = (): void => {
+    if (this.resizeTimeout !== null) {
+      clearTimeout(this.resizeTimeout);
+    }
+    this.resizeTimeout = window.setTimeout(() => {
+      this.resizeTimeout = null;
+      this.handleResize();
+    }, OBSERVER_CONFIG.resizeDebounceMs);
+  };
+
+  private handleOrientationChange = (): void => {
+    if (this.orientationTimeout !== null) clearTimeout(this.orientationTimeout);
+    this.orientationTimeout = window.setTimeout(() => {
+      this.orientationTimeout = null;
+      this.handleResize();
+    }, OBSERVER_CONFIG.orientationChangeDelayMs);
+  };
+
+  private handleResize(): void {
+    if (!this.renderer || !this.camera) return;
+
+    const clientWidth = window.innerWidth;
+    const clientHeight = window.innerHeight;
+
+    // Early return if dimensions unchanged
+    if (clientWidth === this.currentWidth && clientHeight === this.currentHeight) return;
+    if (clientWidth <= 0 || clientHeight <= 0) return;
+
+    // Check mode change
+    const isMobile = clientWidth <= this.options.mobileBreakpoint;
+    const isModeChanged = isMobile !== this.isMobile;
+    this.isMobile = isMobile;
+
+    // Check distances change for desktop mode
+    let areDistancesChanged = false;
+    if (!this.isMobile) {
+      const distances = calculateDistances(clientWidth, clientHeight);
+      const { distanceChangeThreshold } = OBSERVER_CONFIG;
+      const isXChanged = Math.abs(distances.x - this.distances.x) / this.distances.x > distanceChangeThreshold;
+      const isYChanged = Math.abs(distances.y - this.distances.y) / this.distances.y > distanceChangeThreshold;
+
+      if (isXChanged || isYChanged) {
+        this.distances = distances;
+        areDistancesChanged = true;
+      }
+    }
+
+    // Recreate objects if needed
+    if (isModeChanged || areDistancesChanged) {
+      this.createObjects();
+    }
+
+    // Update dimensions and camera
+    this.currentWidth = clientWidth;
+    this.currentHeight = clientHeight;
+    this.camera.aspect = clientWidth / clientHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(clientWidth, clientHeight);
+    this.renderer.setPixelRatio(this.getPixelRatio());
+
+    // No loop redraws the resized canvas
+    if (this.reducedMotion) this.renderStaticFrame();
+  }
+
+  // Reduce pixel ratio on mobile for better performance
+  private getPixelRatio(): number {
+    return this.isMobile
+      ? Math.min(window.devicePixelRatio, this.options.mobile.maxPixelRatio)
+      : window.devicePixelRatio;
+  }
+
+  // Holds the animation until resume(), also when the canvas scrolls back into view
+  public pause(): void {
+    this.isManuallyPaused = true;
+    this.stop();
+  }
+
+  public resume(): void {
+    this.isManuallyPaused = false;
+    if (!document.hidden && isInViewport(this.canvas)) this.play();
+  }
+
+  // Rebuilds the lanes and restarts the loop. A desktop config sets the distances to its `initial`
+  // values, new content loads first
+  public updateConfig(config: Partial<InputFunnelOptions>): void {
+    if (this.isDisposed) return;
+
+    const isContentChanged = config.content !== undefined && config.content !== this.options.content;
+    this.options = { ...this.options, ...structuredClone(config) };
+    this.isMobile = window.innerWidth <= this.options.mobileBreakpoint;
+    if (config.desktop) {
+      this.distances = { ...this.options.desktop.initial };
+    }
+
+    // start() builds everything with the new options
+    if (!this.renderer) return;
+
+    const rebuild = () => {
+      this.createObjects();
+
+      // Reset animation timing to see changes immediately
+      this.elapsedMs = 0;
+      this.startTime = Date.now();
+      if (this.reducedMotion && isInViewport(this.canvas)) this.renderStaticFrame();
+    };
+
+    if (isContentChanged) {
+      this.loadTextures().then(() => {
+        if (!this.isDisposed) rebuild();
+      });
+    } else {
+      rebuild();
+    }
+  }
+
+  public getConfig(): InputFunnelOptions {
+    return structuredClone(this.options);
+  }
+
+  public getMode(): FunnelMode {
+    return this.isMobile ? "mobile" : "desktop";
+  }
+
+  public isPlaying(): boolean {
+    return this.isAnimating;
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.isDisposed = true;
+
+    if (this.resizeTimeout !== null) clearTimeout(this.resizeTimeout);
+    if (this.orientationTimeout !== null) clearTimeout(this.orientationTimeout);
+    this.intersectionObserver?.disconnect();
+    this.resizeObserver?.disconnect();
+    this.unsubscribeReducedMotion?.();
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    window.removeEventListener("resize", this.debouncedResize);
+    window.removeEventListener("orientationchange", this.handleOrientationChange);
+
+    this.clearObjects();
+    this.atlas?.dispose();
+    this.atlas = null;
+    this.items = [];
+    this.scene.clear();
+    this.renderer?.dispose();
+    this.renderer = null;
+  }
+}
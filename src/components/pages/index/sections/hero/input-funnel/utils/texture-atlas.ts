@@ -0,0 +1,101 @@
+import * as THREE from "three";
+import { ATLAS_CONFIG } from "./config";
+
+// Every funnel texture packed into one canvas, so the whole funnel samples a single map. Images
+// keep their aspect ratio and are drawn at most ATLAS_CONFIG.maxItemHeight tall, shrinking further
+// when they don't fit the renderer's texture size
+
+export interface AtlasSource {
+  image: CanvasImageSource;
+  width: number; // px
+  height: number; // px
+}
+
+// Where an image sits in the atlas, in UV space with the origin at the bottom left
+export interface AtlasRegion {
+  u: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+export interface TextureAtlas {
+  texture: THREE.CanvasTexture;
+  regions: AtlasRegion[]; // same order as the sources
+}
+
+interface PackedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Shelf packing, tallest images first. Null when the shelves don't fit `maxSize`
+function packRects(sizes: { width: number; height: number }[], maxSize: number): { rects: PackedRect[]; height: number } | null {
+  const { padding } = ATLAS_CONFIG;
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[b].height - sizes[a].height);
+  const rects: PackedRect[] = new Array(sizes.length);
+
+  let x = padding;
+  let y = padding;
+  let shelfHeight = 0;
+
+  for (const index of order) {
+    const { width, height } = sizes[index];
+    if (width + padding * 2 > maxSize) return null;
+
+    if (x + width + padding > maxSize) {
+      x = padding;
+      y += shelfHeight + padding;
+      shelfHeight = 0;
+    }
+
+    rects[index] = { x, y, width, height };
+    x += width + padding;
+    shelfHeight = Math.max(shelfHeight, height);
+  }
+
+  const height = y + shelfHeight + padding;
+  return height > maxSize ? null : { rects, height };
+}
+
+export function createTextureAtlas(sources: AtlasSource[], maxSize: number): TextureAtlas {
+  let scale = 1;
+  let packed: { rects: PackedRect[]; height: number } | null = null;
+  let sizes: { width: number; height: number }[] = [];
+
+  while (!packed) {
+    sizes = sources.map(({ width, height }) => {
+      const itemHeight = Math.min(height, ATLAS_CONFIG.maxItemHeight) * scale;
+      return {
+        width: Math.max(1, Math.round((itemHeight * width) / height)),
+        height: Math.max(1, Math.round(itemHeight)),
+      };
+    });
+    packed = packRects(sizes, maxSize);
+    scale *= ATLAS_CONFIG.shrinkFactor;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = maxSize;
+  canvas.height = Math.max(1, Math.ceil(packed.height));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas unavailable");
+
+  const { rects } = packed;
+  sources.forEach(({ image }, index) => {
+    const { x, y, width, height } = rects[index];
+    context.drawImage(image, x, y, width, height);
+  });
+
+  // Canvas rows run top down, flipY puts them bottom up in UV space
+  const regions = rects.map(({ x, y, width, height }) => ({
+    u: x / canvas.width,
+    v: 1 - (y + height) / canvas.height,
+    width: width / canvas.width,
+    height: height / canvas.height,
+  }));
+
+  return { texture: new THREE.CanvasTexture(canvas), regions };
+}
@@ -1,5 +1,9 @@
 import * as THREE from "three";
-import { generateLogo } from "@/utils/particleGeometry.js";
+import { generateParticlePositions } from "@/utils/particle-arrangements/geometry-positions";
+import {
+  onReducedMotionChange,
+  prefersReducedMotion,
+} from "@/utils/reduced-motion";
 
 export class ParticleSystem {
   constructor(canvas, config = {}) {
@@ -45,6 +49,11 @@ export class ParticleSystem {
     this.clock = new THREE.Clock();
     this.animationStartTime = 0;
     this.isAnimating = false;
+    this.animationFrameId = null;
+
+    // Reduced motion renders the logo at rest once instead of looping
+    this.reducedMotion = prefersReducedMotion();
+    this.unsubscribeReducedMotion = null;
 
     this.init();
   }
@@ -109,7 +118,7 @@ export class ParticleSystem {
   }
 
   createParticles() {
-    const logoPositions = generateLogo(this.config.radius);
+    const logoPositions = generateParticlePositions("logo", { radius: this.config.radius });
 
     const geometry = new THREE.SphereGeometry(this.config.particleSize, 12, 12);
     const material = new THREE.MeshBasicMaterial({
@@ -258,17 +267,46 @@ export class ParticleSystem {
   }
 
   animate() {
+    if (this.reducedMotion) {
+      this.renderStaticFrame();
+      return;
+    }
+
     const elapsedTime = this.clock.getElapsedTime() * 1000;
 
     this.updateParticleAnimations(elapsedTime);
     this.updateRotation();
 
     this.renderer.render(this.scene, this.camera);
-    requestAnimationFrame(() => this.animate());
+    this.animationFrameId = requestAnimationFrame(() => this.animate());
+  }
+
+  renderStaticFrame() {
+    this.particles.forEach((particle) => {
+      particle.position.copy(particle.userData.originalPosition);
+      particle.scale.setScalar(1);
+      particle.rotation.set(0, 0, 0);
+    });
+
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  setReducedMotion(enabled) {
+    if (enabled === this.reducedMotion) return;
+    this.reducedMotion = enabled;
+
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.animate();
   }
 
   setupEventListeners() {
     window.addEventListener("resize", () => this.handleResize());
+    this.unsubscribeReducedMotion = onReducedMotionChange((reduced) =>
+      this.setReducedMotion(reduced)
+    );
   }
 
   handleResize() {
@@ -283,6 +321,11 @@ export class ParticleSystem {
 
     this.renderer.setSize(this.canvas.clientWidth, this.canvas.clientHeight);
     this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+
+    // Resizing clears the canvas and no loop will draw it again
+    if (this.reducedMotion) {
+      this.renderStaticFrame();
+    }
   }
 
   updateConfig(newConfig) {
@@ -301,7 +344,7 @@ export class ParticleSystem {
       newConfig.animationType
     ) {
       this.isAnimating =
-        newConfig.continuousAnimation ||
+        this.config.continuousAnimation ||
         this.isEnterAnimation(this.config.animationType);
       if (this.isAnimating) {
         this.animationStartTime = this.clock.getElapsedTime() * 1000;
@@ -310,6 +353,12 @@ export class ParticleSystem {
   }
 
   dispose() {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.unsubscribeReducedMotion?.();
+
     this.particles.forEach((particle) => {
       particle.geometry.dispose();
       particle.material.dispose();
@@ -0,0 +1,159 @@
+// Shareable scene configs: a compact URL hash (#funnel=...&particles=...) holding only the values
+// that differ from the defaults, and downloadable JSON files with the full config
+
+export interface SharedConfig {
+  scene: string;
+  version: number;
+  config: Record<string, unknown>;
+}
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Values of `config` that differ from `defaults`, nested objects are compared key by key
+export function diffConfig(config: object, defaults: object): PlainObject {
+  const diff: PlainObject = {};
+  for (const [key, value] of Object.entries(config)) {
+    const defaultValue = (defaults as PlainObject)[key];
+    if (isPlainObject(value) && isPlainObject(defaultValue)) {
+      const nested = diffConfig(value, defaultValue);
+      if (Object.keys(nested).length > 0) diff[key] = nested;
+    } else if (JSON.stringify(value) !== JSON.stringify(defaultValue)) {
+      diff[key] = value;
+    }
+  }
+  return diff;
+}
+
+// Deep merge of `partial` over `target`, in place. Only keys that exist in `target` with the same
+// type are taken, the rest is returned as rejected paths
+export function mergeConfig(target: object, partial: PlainObject, path = ""): string[] {
+  const rejected: string[] = [];
+  for (const [key, value] of Object.entries(partial)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    const current = (target as PlainObject)[key];
+
+    if (isPlainObject(current)) {
+      if (isPlainObject(value)) {
+        rejected.push(...mergeConfig(current, value, keyPath));
+      } else {
+        rejected.push(keyPath);
+      }
+    } else if (
+      key in target &&
+      typeof value === typeof current &&
+      Array.isArray(value) === Array.isArray(current) &&
+      (typeof value !== "number" || Number.isFinite(value))
+    ) {
+      (target as PlainObject)[key] = value;
+    } else {
+      rejected.push(keyPath);
+    }
+  }
+  return rejected;
+}
+
+// JSON -> UTF-8 -> base64url, short enough for links and safe in a hash
+function encodePayload(data: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodePayload(payload: string): unknown {
+  const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+function parseShared(data: unknown, scene: string): SharedConfig {
+  if (
+    !isPlainObject(data) ||
+    typeof data.version !== "number" ||
+    !isPlainObject(data.config)
+  ) {
+    throw new Error(`Not a ${scene} config`);
+  }
+  if (typeof data.scene === "string" && data.scene !== scene) {
+    throw new Error(`Config is for "${data.scene}", expected "${scene}"`);
+  }
+  return { scene, version: data.version, config: data.config };
+}
+
+// Config for `scene` from the current URL hash, null when there is none. Throws on a malformed one
+export function readConfigFromHash(scene: string): SharedConfig | null {
+  if (typeof window === "undefined") return null;
+
+  const payload = new URLSearchParams(window.location.hash.slice(1)).get(scene);
+  if (!payload) return null;
+
+  const { v, c } = decodePayload(payload) as { v?: unknown; c?: unknown };
+  return parseShared({ version: v, config: c }, scene);
+}
+
+// Writes the diff against `defaults` into the hash without a navigation, keeping other scenes'
+// entries, and returns the full link
+export function writeConfigToHash(
+  scene: string,
+  version: number,
+  config: object,
+  defaults: object
+): string {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  params.set(scene, encodePayload({ v: version, c: diffConfig(config, defaults) }));
+
+  const url = new URL(window.location.href);
+  url.hash = params.toString();
+  history.replaceState(history.state, "", url);
+  return url.href;
+}
+
+export function removeConfigFromHash(scene: string): void {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  if (!params.has(scene)) return;
+  params.delete(scene);
+
+  const url = new URL(window.location.href);
+  url.hash = params.toString();
+  history.replaceState(history.state, "", url);
+}
+
+export function downloadConfigJson(scene: string, version: number, config: object): void {
+  const shared = { scene, version, config };
+  const blob = new Blob([`${JSON.stringify(shared, null, 2)}\n`], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${scene}-config.json`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function parseConfigJson(file: Blob, scene: string): Promise<SharedConfig> {
+  return parseShared(JSON.parse(await file.text()), scene);
+}
+
+// Opens a file picker and resolves with the chosen config, or null when cancelled
+export function pickConfigJson(scene: string): Promise<SharedConfig | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      parseConfigJson(file, scene).then(resolve, reject);
+    });
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+}
@@ -0,0 +1,571 @@
+import { Vector3 } from 'three'
+import { seededRandom } from './seeded-random'
+import { sampleSvgFill, sampleSvgPath, sampleText } from './shape-sampling'
+
+export interface ParticlePosition {
+  position: Vector3
+  index: number
+}
+
+export const fibonacciSphere = (samples: number, radius: number = 1): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+
+  for (let i = 0; i < samples; i++) {
+    const y = 1 - (i / (samples - 1)) * 2
+    const radiusAtY = Math.sqrt(1 - y * y)
+    const theta = goldenAngle * i
+
+    const x = Math.cos(theta) * radiusAtY
+    const z = Math.sin(theta) * radiusAtY
+
+    points.push({
+      position: new Vector3(x * radius, y * radius, z * radius),
+      index: i
+    })
+  }
+
+  return points
+}
+
+export const generateSphericalLines = (
+  particleCount: number,
+  numLines: number,
+  particlesPerLine: number,
+  radius: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  let index = 0
+  
+  // Auto-calculate optimal distribution if using particleCount
+  let actualNumLines = numLines
+  let actualParticlesPerLine = particlesPerLine
+  
+  // If particleCount would result in a very different total, auto-adjust
+  const manualTotal = numLines * particlesPerLine
+  if (Math.abs(manualTotal - particleCount) > particleCount * 0.2) {
+    // Auto-calculate for better distribution
+    actualNumLines = Math.max(3, Math.round(Math.sqrt(particleCount * 0.6)))
+    actualParticlesPerLine = Math.max(3, Math.round(particleCount / actualNumLines))
+  }
+  
+  // Ensure we don't exceed particleCount significantly
+  const projectedTotal = actualNumLines * actualParticlesPerLine
+  if (projectedTotal > particleCount * 1.1) {
+    actualParticlesPerLine = Math.max(3, Math.floor(particleCount / actualNumLines))
+  }
+
+  for (let lineIndex = 0; lineIndex < actualNumLines && index < particleCount; lineIndex++) {
+    const phi = (lineIndex / actualNumLines) * Math.PI * 2
+
+    for (let pointIndex = 0; pointIndex < actualParticlesPerLine && index < particleCount; pointIndex++) {
+      const theta = (pointIndex / (actualParticlesPerLine - 1)) * Math.PI
+
+      const x = radius * Math.sin(theta) * Math.cos(phi)
+      const y = radius * Math.cos(theta)
+      const z = radius * Math.sin(theta) * Math.sin(phi)
+
+      points.push({
+        position: new Vector3(x, y, z),
+        index: index++
+      })
+    }
+  }
+
+  return points
+}
+
+export const generateSphericalRings = (
+  particleCount: number,
+  numRings: number,
+  maxParticlesPerRing: number,
+  radius: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  let index = 0
+  
+  // Calculate approximate particles per ring to reach target count
+  const avgParticlesPerRing = particleCount / numRings
+  
+  // Auto-adjust if manual settings are very different from target
+  let actualNumRings = numRings
+  let actualMaxParticlesPerRing = maxParticlesPerRing
+  
+  if (avgParticlesPerRing > maxParticlesPerRing * 1.5) {
+    // Need more particles per ring
+    actualMaxParticlesPerRing = Math.ceil(avgParticlesPerRing * 1.2)
+  } else if (avgParticlesPerRing < maxParticlesPerRing * 0.5) {
+    // Too many particles per ring, adjust rings count
+    actualNumRings = Math.max(3, Math.ceil(particleCount / maxParticlesPerRing))
+  }
+
+  for (let ringIndex = 0; ringIndex < actualNumRings && index < particleCount; ringIndex++) {
+    const theta = (ringIndex / (actualNumRings - 1)) * Math.PI
+    const ringRadius = radius * Math.sin(theta)
+    const y = radius * Math.cos(theta)
+    
+    // Calculate particles for this ring, ensuring we don't exceed total
+    const remainingParticles = particleCount - index
+    const remainingRings = actualNumRings - ringIndex
+    const targetForThisRing = Math.ceil(remainingParticles / remainingRings)
+    
+    const particlesInRing = Math.max(
+      3,
+      Math.min(
+        targetForThisRing,
+        Math.floor(actualMaxParticlesPerRing * Math.sin(theta))
+      )
+    )
+
+    for (let i = 0; i < particlesInRing && index < particleCount; i++) {
+      const phi = (i / particlesInRing) * Math.PI * 2
+      const x = ringRadius * Math.cos(phi)
+      const z = ringRadius * Math.sin(phi)
+
+      points.push({
+        position: new Vector3(x, y, z),
+        index: index++
+      })
+    }
+  }
+
+  return points
+}
+
+export const generateSphericalSpiral = (
+  numParticles: number,
+  radius: number,
+  turns: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+
+  for (let i = 0; i < numParticles; i++) {
+    const t = i / numParticles
+    const theta = t * Math.PI
+    const phi = t * turns * Math.PI * 2
+
+    const x = radius * Math.sin(theta) * Math.cos(phi)
+    const y = radius * Math.cos(theta)
+    const z = radius * Math.sin(theta) * Math.sin(phi)
+
+    points.push({
+      position: new Vector3(x, y, z),
+      index: i
+    })
+  }
+
+  return points
+}
+
+export const generateLogo = (
+  radius: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  let index = 0
+  
+  // Custom ring pattern: [1, 8, 8, 8, 1] particles per ring
+  const ringsPattern = [1, 8, 8, 8, 1]
+  const numRings = ringsPattern.length
+  
+  for (let ringIndex = 0; ringIndex < numRings; ringIndex++) {
+    const theta = (ringIndex / (numRings - 1)) * Math.PI
+    const ringRadius = radius * Math.sin(theta)
+    const y = radius * Math.cos(theta)
+    
+    const particlesInRing = ringsPattern[ringIndex]
+
+    for (let i = 0; i < particlesInRing; i++) {
+      const phi = (i / particlesInRing) * Math.PI * 2
+      const x = ringRadius * Math.cos(phi)
+      const z = ringRadius * Math.sin(phi)
+
+      // Apply 90-degree rotation around Z-axis
+      // Rotation matrix for Z-axis: newX = -y, newY = x, newZ = z
+      const rotatedX = -y
+      const rotatedY = x
+      const rotatedZ = z
+
+      points.push({
+        position: new Vector3(rotatedX, rotatedY, rotatedZ),
+        index: index++
+      })
+    }
+  }
+
+  return points
+}
+
+export const generateTorus = (
+  particleCount: number,
+  radius: number,
+  tubeRatio: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+
+  // Outer edge on `radius`, the ring lies in the XZ plane
+  const majorRadius = radius / (1 + tubeRatio)
+  const tubeRadius = majorRadius * tubeRatio
+
+  // Segments in proportion to both circumferences so spacing is even along and around the tube
+  const majorSegments = Math.max(3, Math.round(Math.sqrt(particleCount / tubeRatio)))
+  const minorSegments = Math.max(3, Math.floor(particleCount / majorSegments))
+
+  for (let i = 0; i < majorSegments; i++) {
+    const u = (i / majorSegments) * Math.PI * 2
+
+    for (let j = 0; j < minorSegments; j++) {
+      // Offset every other ring by half a segment to avoid visible seams
+      const v = ((j + (i % 2) * 0.5) / minorSegments) * Math.PI * 2
+      const ringRadius = majorRadius + tubeRadius * Math.cos(v)
+
+      points.push({
+        position: new Vector3(ringRadius * Math.cos(u), tubeRadius * Math.sin(v), ringRadius * Math.sin(u)),
+        index: points.length
+      })
+    }
+  }
+
+  return points
+}
+
+export const generateCubeLattice = (
+  particleCount: number,
+  radius: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+
+  // Largest n x n x n lattice within particleCount, corners touch the sphere of `radius`
+  const perSide = Math.max(2, Math.floor(Math.cbrt(particleCount) + 1e-6))
+  const halfSize = radius / Math.sqrt(3)
+  const spacing = (halfSize * 2) / (perSide - 1)
+
+  for (let x = 0; x < perSide; x++) {
+    for (let y = 0; y < perSide; y++) {
+      for (let z = 0; z < perSide; z++) {
+        points.push({
+          position: new Vector3(x * spacing - halfSize, y * spacing - halfSize, z * spacing - halfSize),
+          index: points.length
+        })
+      }
+    }
+  }
+
+  return points
+}
+
+export const generateHelix = (
+  particleCount: number,
+  radius: number,
+  turns: number,
+  strands: number
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  const perStrand = Math.max(2, Math.floor(particleCount / strands))
+
+  // Height along Y and helix radius chosen so the ends stay inside `radius`
+  const helixRadius = radius * 0.5
+  const halfHeight = Math.sqrt(radius * radius - helixRadius * helixRadius)
+
+  for (let strand = 0; strand < strands; strand++) {
+    const strandOffset = (strand / strands) * Math.PI * 2
+
+    for (let i = 0; i < perStrand; i++) {
+      const t = i / (perStrand - 1)
+      const angle = t * turns * Math.PI * 2 + strandOffset
+
+      points.push({
+        position: new Vector3(
+          helixRadius * Math.cos(angle),
+          halfHeight * (t * 2 - 1),
+          helixRadius * Math.sin(angle)
+        ),
+        index: points.length
+      })
+    }
+  }
+
+  return points
+}
+
+// Blue-noise points on the sphere: random candidates are kept only when no accepted point is
+// closer than the spacing an even distribution of particleCount would have. A grid of cells as
+// large as that spacing keeps the neighbor lookup local. May return fewer points than asked
+export const generatePoissonSphere = (
+  particleCount: number,
+  radius: number,
+  seed: number,
+  maxAttemptsPerPoint: number = 30
+): ParticlePosition[] => {
+  const points: ParticlePosition[] = []
+  if (particleCount <= 0) return points
+
+  // Mean spacing on the sphere area shared by particleCount points, shrunk to leave room for misses
+  const minDistance = radius * Math.sqrt((4 * Math.PI) / particleCount) * 0.8
+  const minDistanceSq = minDistance * minDistance
+  const cells = new Map<string, Vector3[]>()
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`
+  const toCell = (value: number) => Math.floor(value / minDistance)
+
+  const isFarEnough = (candidate: Vector3): boolean => {
+    const cx = toCell(candidate.x)
+    const cy = toCell(candidate.y)
+    const cz = toCell(candidate.z)
+
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (let z = cz - 1; z <= cz + 1; z++) {
+          for (const neighbor of cells.get(cellKey(x, y, z)) ?? []) {
+            if (neighbor.distanceToSquared(candidate) < minDistanceSq) return false
+          }
+        }
+      }
+    }
+    return true
+  }
+
+  const maxAttempts = particleCount * maxAttemptsPerPoint
+  for (let attempt = 0; attempt < maxAttempts && points.length < particleCount; attempt++) {
+    // Uniform point on the sphere from two seeded values
+    const y = 1 - 2 * seededRandom(seed * 7919 + attempt * 2)
+    const theta = seededRandom(seed * 7919 + attempt * 2 + 1) * Math.PI * 2
+    const radiusAtY = Math.sqrt(1 - y * y)
+    const candidate = new Vector3(
+      Math.cos(theta) * radiusAtY * radius,
+      y * radius,
+      Math.sin(theta) * radiusAtY * radius
+    )
+
+    if (!isFarEnough(candidate)) continue
+
+    const key = cellKey(toCell(candidate.x), toCell(candidate.y), toCell(candidate.z))
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(candidate)
+    } else {
+      cells.set(key, [candidate])
+    }
+    points.push({ position: candidate, index: points.length })
+  }
+
+  return points
+}
+
+// ============================================================================
+// Arrangement registry
+// ============================================================================
+
+export type ArrangementParamSchema =
+  | { type: 'number'; default: number; min: number; max: number; integer?: boolean }
+  | { type: 'string'; default: string }
+
+export type ArrangementParamValues = Record<string, number | string>
+
+export interface ArrangementDefinition<Params extends ArrangementParamValues = ArrangementParamValues> {
+  label: string
+  // Parameters the generator reads besides particleCount and radius, with defaults and ranges
+  params: { [Key in keyof Params]: ArrangementParamSchema }
+  generate: (particleCount: number, radius: number, params: Params) => ParticlePosition[]
+  // Particle count without generating the positions, when it can be computed up front
+  count?: (particleCount: number, params: Params) => number
+}
+
+export interface ArrangementInput {
+  particleCount?: number
+  radius?: number
+  [param: string]: number | string | undefined
+}
+
+const FALLBACK_ARRANGEMENT = 'fibonacci'
+
+const arrangements = new Map<string, ArrangementDefinition>()
+
+// Adds an arrangement, or replaces the one registered under `type`
+export const registerArrangement = <Params extends ArrangementParamValues>(
+  type: string,
+  definition: ArrangementDefinition<Params>
+): void => {
+  arrangements.set(type, definition as unknown as ArrangementDefinition)
+}
+
+// Typed built-in definition, its params checked against `Params`
+const defineArrangement = <Params extends ArrangementParamValues>(
+  definition: ArrangementDefinition<Params>
+): ArrangementDefinition => definition as unknown as ArrangementDefinition
+
+export const getArrangement = (type: string): ArrangementDefinition | undefined => arrangements.get(type)
+
+export const getArrangementTypes = (): ArrangementType[] => [...arrangements.keys()]
+
+// Schema of a param by name, from whichever registered arrangement declares it
+export const findArrangementParam = (name: string): ArrangementParamSchema | undefined => {
+  for (const definition of arrangements.values()) {
+    if (name in definition.params) return definition.params[name]
+  }
+  return undefined
+}
+
+// Params of `definition` read from `input`, falling back to the defaults for missing or mistyped ones
+const resolveParams = (definition: ArrangementDefinition, input: ArrangementInput): ArrangementParamValues => {
+  const params: ArrangementParamValues = {}
+  for (const [key, schema] of Object.entries(definition.params)) {
+    const value = input[key]
+    if (schema.type === 'number') {
+      params[key] = typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(schema.max, Math.max(schema.min, value))
+        : schema.default
+    } else {
+      params[key] = typeof value === 'string' && value.length > 0 ? value : schema.default
+    }
+  }
+  return params
+}
+
+const resolveArrangement = (type: ArrangementType): ArrangementDefinition => {
+  const definition = arrangements.get(type) ?? arrangements.get(FALLBACK_ARRANGEMENT)
+  if (!definition) throw new Error(`Unknown arrangement "${type}"`)
+  return definition
+}
+
+export const generateParticlePositions = (
+  arrangementType: ArrangementType,
+  input: ArrangementInput
+): ParticlePosition[] => {
+  const { particleCount = 100, radius = 1 } = input
+  const definition = resolveArrangement(arrangementType)
+  return definition.generate(particleCount, radius, resolveParams(definition, input))
+}
+
+// Helper function to get the actual particle count for a given arrangement
+export const getActualParticleCount = (
+  arrangementType: ArrangementType,
+  input: ArrangementInput
+): number => {
+  const { particleCount = 100 } = input
+  const definition = resolveArrangement(arrangementType)
+  const params = resolveParams(definition, input)
+  return definition.count
+    ? definition.count(particleCount, params)
+    : definition.generate(particleCount, 1, params).length
+}
+
+// Built-in arrangements
+
+// Heart, swap in any path data (icons, glyph outlines exported from a font)
+const DEFAULT_SVG_PATH =
+  'M12 21s-7.5-4.6-9.6-9.3C.9 8.2 3 4.5 6.6 4.5c2.2 0 3.9 1.3 5.4 3.3 1.5-2 3.2-3.3 5.4-3.3 3.6 0 5.7 3.7 4.2 7.2C19.5 16.4 12 21 12 21z'
+
+const BUILT_IN_ARRANGEMENTS = {
+  fibonacci: defineArrangement({
+    label: 'Fibonacci sphere',
+    params: {},
+    generate: (particleCount, radius) => fibonacciSphere(particleCount, radius),
+    count: (particleCount) => particleCount
+  }),
+
+  'spherical-lines': defineArrangement<{ numLines: number; particlesPerLine: number }>({
+    label: 'Spherical lines',
+    params: {
+      numLines: { type: 'number', default: 12, min: 1, max: 200, integer: true },
+      particlesPerLine: { type: 'number', default: 20, min: 1, max: 500, integer: true }
+    },
+    generate: (particleCount, radius, { numLines, particlesPerLine }) =>
+      generateSphericalLines(particleCount, numLines, particlesPerLine, radius)
+  }),
+
+  'spherical-rings': defineArrangement<{ numRings: number; maxParticlesPerRing: number }>({
+    label: 'Spherical rings',
+    params: {
+      numRings: { type: 'number', default: 10, min: 1, max: 100, integer: true },
+      maxParticlesPerRing: { type: 'number', default: 24, min: 1, max: 500, integer: true }
+    },
+    generate: (particleCount, radius, { numRings, maxParticlesPerRing }) =>
+      generateSphericalRings(particleCount, numRings, maxParticlesPerRing, radius)
+  }),
+
+  'spherical-spiral': defineArrangement<{ spiralTurns: number }>({
+    label: 'Spherical spiral',
+    params: {
+      spiralTurns: { type: 'number', default: 5, min: 0, max: 50 }
+    },
+    generate: (particleCount, radius, { spiralTurns }) =>
+      generateSphericalSpiral(particleCount, radius, spiralTurns),
+    count: (particleCount) => particleCount
+  }),
+
+  logo: defineArrangement({
+    label: 'Logo (1-8-8-8-1 rings)',
+    params: {},
+    generate: (_particleCount, radius) => generateLogo(radius),
+    count: () => 26
+  }),
+
+  torus: defineArrangement<{ torusTubeRatio: number }>({
+    label: 'Torus',
+    params: {
+      torusTubeRatio: { type: 'number', default: 0.35, min: 0.05, max: 0.95 }
+    },
+    generate: (particleCount, radius, { torusTubeRatio }) => generateTorus(particleCount, radius, torusTubeRatio)
+  }),
+
+  'cube-lattice': defineArrangement({
+    label: 'Cube lattice',
+    params: {},
+    generate: (particleCount, radius) => generateCubeLattice(particleCount, radius),
+    count: (particleCount) => Math.max(2, Math.floor(Math.cbrt(particleCount) + 1e-6)) ** 3
+  }),
+
+  helix: defineArrangement<{ helixTurns: number; helixStrands: number }>({
+    label: 'Helix',
+    params: {
+      helixTurns: { type: 'number', default: 3, min: 0.5, max: 20 },
+      helixStrands: { type: 'number', default: 2, min: 1, max: 8, integer: true }
+    },
+    generate: (particleCount, radius, { helixTurns, helixStrands }) =>
+      generateHelix(particleCount, radius, helixTurns, helixStrands),
+    count: (particleCount, { helixStrands }) => Math.max(2, Math.floor(particleCount / helixStrands)) * helixStrands
+  }),
+
+  'poisson-sphere': defineArrangement<{ poissonSeed: number }>({
+    label: 'Poisson-disk sphere',
+    params: {
+      poissonSeed: { type: 'number', default: 1, min: 0, max: 10000, integer: true }
+    },
+    generate: (particleCount, radius, { poissonSeed }) => generatePoissonSphere(particleCount, radius, poissonSeed)
+  }),
+
+  'svg-path': defineArrangement<{ svgPath: string }>({
+    label: 'SVG path / glyph outline',
+    params: {
+      svgPath: { type: 'string', default: DEFAULT_SVG_PATH }
+    },
+    generate: (particleCount, radius, { svgPath }) => sampleSvgPath(svgPath, particleCount, radius)
+  }),
+
+  'svg-fill': defineArrangement<{ svgPath: string }>({
+    label: 'SVG path / icon, filled',
+    params: {
+      svgPath: { type: 'string', default: DEFAULT_SVG_PATH }
+    },
+    generate: (particleCount, radius, { svgPath }) => sampleSvgFill(svgPath, particleCount, radius)
+  }),
+
+  text: defineArrangement<{ text: string; textFont: string; textWeight: number }>({
+    label: 'Text',
+    params: {
+      text: { type: 'string', default: 'Sharpi' },
+      textFont: { type: 'string', default: 'suisse-intl, sans-serif' },
+      textWeight: { type: 'number', default: 600, min: 100, max: 900, integer: true }
+    },
+    generate: (particleCount, radius, { text, textFont, textWeight }) =>
+      sampleText(text, particleCount, radius, textFont, textWeight)
+  })
+}
+
+// Derived from the built-ins, so a new one needs no second list
+export type BuiltInArrangementType = keyof typeof BUILT_IN_ARRANGEMENTS
+// The union keeps autocomplete for the built-ins
+export type ArrangementType = BuiltInArrangementType | (string & {})
+
+for (const [type, definition] of Object.entries(BUILT_IN_ARRANGEMENTS)) {
+  registerArrangement(type, definition)
+}
@@ -0,0 +1,5 @@
+// Deterministic pseudo random value in [0, 1), e.g. for a particle index
+export const seededRandom = (seed: number): number => {
+  const x = Math.sin(seed * 12.9898 + 78.233) * 43758.5453
+  return x - Math.floor(x)
+}
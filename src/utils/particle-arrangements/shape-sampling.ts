@@ -0,0 +1,175 @@
+import { Vector3 } from 'three'
+import type { ParticlePosition } from './geometry-positions'
+import { seededRandom } from './seeded-random'
+
+// Point clouds from 2D shapes: SVG path outlines, filled SVG paths and text. Shapes lie flat on
+// the XY plane, centered, with the longer side spanning 2 * radius. Everything here measures or
+// rasterizes through the DOM, without it the samplers return no points
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Longest side of the raster used for filled shapes, in pixels
+const RASTER_SIZE = 256
+
+interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// 2D points centered and scaled into the XY plane, y flipped since canvas and SVG y grow downwards
+const toParticlePositions = (
+  points: { x: number; y: number }[],
+  bounds: Bounds,
+  radius: number
+): ParticlePosition[] => {
+  const scale = (radius * 2) / (Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) || 1)
+  const centerX = (bounds.minX + bounds.maxX) / 2
+  const centerY = (bounds.minY + bounds.maxY) / 2
+
+  return points.map((point, index) => ({
+    position: new Vector3((point.x - centerX) * scale, (centerY - point.y) * scale, 0),
+    index
+  }))
+}
+
+const getBounds = (points: { x: number; y: number }[]): Bounds => {
+  const bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (const point of points) {
+    bounds.minX = Math.min(bounds.minX, point.x)
+    bounds.minY = Math.min(bounds.minY, point.y)
+    bounds.maxX = Math.max(bounds.maxX, point.x)
+    bounds.maxY = Math.max(bounds.maxY, point.y)
+  }
+  return bounds
+}
+
+// `count` evenly spaced points along the path, null for malformed path data
+const measureSvgPath = (pathData: string, count: number): { x: number; y: number }[] | null => {
+  const path = document.createElementNS(SVG_NS, 'path')
+  path.setAttribute('d', pathData)
+
+  let totalLength: number
+  try {
+    totalLength = path.getTotalLength()
+  } catch {
+    return null
+  }
+  if (!Number.isFinite(totalLength) || totalLength <= 0) return null
+
+  const points: { x: number; y: number }[] = []
+  for (let i = 0; i < count; i++) {
+    const point = path.getPointAtLength((i / count) * totalLength)
+    points.push({ x: point.x, y: point.y })
+  }
+  return points
+}
+
+// Opaque pixels of a canvas, row by row
+const getFilledPixels = (context: CanvasRenderingContext2D, width: number, height: number): { x: number; y: number }[] => {
+  const { data } = context.getImageData(0, 0, width, height)
+  const pixels: { x: number; y: number }[] = []
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 127) pixels.push({ x, y })
+    }
+  }
+  return pixels
+}
+
+// `count` pixels spread evenly over the filled area, jittered inside their pixel so shapes
+// sampled at a higher count than they have pixels don't stack particles
+const pickPixels = (pixels: { x: number; y: number }[], count: number): { x: number; y: number }[] => {
+  const step = pixels.length / count
+  const points: { x: number; y: number }[] = []
+  for (let i = 0; i < count; i++) {
+    const pixel = pixels[Math.min(pixels.length - 1, Math.floor((i + 0.5) * step))]
+    points.push({ x: pixel.x + seededRandom(i * 2), y: pixel.y + seededRandom(i * 2 + 1) })
+  }
+  return points
+}
+
+const createRaster = (width: number, height: number): CanvasRenderingContext2D | null => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.ceil(width))
+  canvas.height = Math.max(1, Math.ceil(height))
+  return canvas.getContext('2d', { willReadFrequently: true })
+}
+
+const sampleRaster = (
+  context: CanvasRenderingContext2D,
+  particleCount: number,
+  radius: number
+): ParticlePosition[] => {
+  const { width, height } = context.canvas
+  const pixels = getFilledPixels(context, width, height)
+  if (pixels.length === 0) return []
+
+  const points = pickPixels(pixels, particleCount)
+  return toParticlePositions(points, getBounds(pixels), radius)
+}
+
+// Evenly spaced points along SVG path data, e.g. an icon or a font glyph's outline
+export const sampleSvgPath = (
+  pathData: string,
+  particleCount: number,
+  radius: number
+): ParticlePosition[] => {
+  if (typeof document === 'undefined' || particleCount <= 0) return []
+
+  const points = measureSvgPath(pathData, particleCount)
+  return points ? toParticlePositions(points, getBounds(points), radius) : []
+}
+
+// Points spread over the filled area of SVG path data, for solid icons
+export const sampleSvgFill = (
+  pathData: string,
+  particleCount: number,
+  radius: number
+): ParticlePosition[] => {
+  if (typeof document === 'undefined' || particleCount <= 0) return []
+
+  // The outline gives the bounds, Path2D has no way to measure itself
+  const outline = measureSvgPath(pathData, 256)
+  if (!outline) return []
+  const bounds = getBounds(outline)
+  const scale = RASTER_SIZE / (Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) || 1)
+
+  const context = createRaster((bounds.maxX - bounds.minX) * scale + 2, (bounds.maxY - bounds.minY) * scale + 2)
+  if (!context) return []
+  context.translate(1 - bounds.minX * scale, 1 - bounds.minY * scale)
+  context.scale(scale, scale)
+  context.fill(new Path2D(pathData))
+
+  return sampleRaster(context, particleCount, radius)
+}
+
+// Points spread over the glyphs of `text` set in a CSS font. Web fonts have to be loaded before
+// sampling (document.fonts.load) or the fallback font is used
+export const sampleText = (
+  text: string,
+  particleCount: number,
+  radius: number,
+  fontFamily: string = 'sans-serif',
+  fontWeight: number = 600
+): ParticlePosition[] => {
+  if (typeof document === 'undefined' || particleCount <= 0 || text.trim().length === 0) return []
+
+  const fontSize = RASTER_SIZE / 2
+  const font = `${fontWeight} ${fontSize}px ${fontFamily}`
+
+  const measure = createRaster(1, 1)
+  if (!measure) return []
+  measure.font = font
+  const width = measure.measureText(text).width
+
+  const context = createRaster(width + fontSize * 0.2, fontSize * 1.4)
+  if (!context) return []
+  context.font = font
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  context.fillText(text, context.canvas.width / 2, context.canvas.height / 2)
+
+  return sampleRaster(context, particleCount, radius)
+}
@@ -0,0 +1,19 @@
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export function prefersReducedMotion(): boolean {
+  if (typeof window === "undefined" || !window.matchMedia) return false;
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+// Calls `callback` whenever the OS preference changes, returns the unsubscribe function
+export function onReducedMotionChange(
+  callback: (reduced: boolean) => void
+): () => void {
+  if (typeof window === "undefined" || !window.matchMedia) return () => {};
+
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = (event: MediaQueryListEvent) => callback(event.matches);
+  query.addEventListener("change", handleChange);
+
+  return () => query.removeEventListener("change", handleChange);
+}
@@ -0,0 +1,123 @@
+import { GUI, type Controller } from "lil-gui";
+
+// Per-key hints, keyed by dotted path ("initial.x", "keyframes.*.duration", * matches one
+// segment). Without hints the control type and range are inferred from the current value
+export interface TunableField {
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: readonly string[];
+  label?: string;
+}
+
+export interface TunableScene<Config extends object> {
+  name: string; // folder title
+  config: Config; // edited in place by the controls
+  fields?: Record<string, TunableField>;
+  exclude?: string[]; // dotted path patterns left out of the panel
+  onChange: (path: string, value: unknown, config: Config) => void;
+  actions?: Record<string, () => void>; // buttons, keyed by label
+}
+
+export interface TunableSceneHandle {
+  refresh: () => void; // redraw the controls after the config changed elsewhere
+  dispose: () => void;
+}
+
+let gui: GUI | null = null;
+
+function getGui(): GUI {
+  gui ??= new GUI({ title: "Tuning", width: 340 });
+  return gui;
+}
+
+const matchesPath = (pattern: string, path: string): boolean => {
+  const patternSegments = pattern.split(".");
+  const pathSegments = path.split(".");
+  return (
+    patternSegments.length === pathSegments.length &&
+    patternSegments.every((segment, i) => segment === "*" || segment === pathSegments[i])
+  );
+};
+
+const findHint = (fields: Record<string, TunableField> | undefined, path: string): TunableField =>
+  Object.entries(fields ?? {}).find(([pattern]) => matchesPath(pattern, path))?.[1] ?? {};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// "lensCursorChromaticAberration" -> "Lens Cursor Chromatic Aberration"
+const toLabel = (key: string): string =>
+  key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/^./, (char) => char.toUpperCase());
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Slider range around the current value when no hint is given
+function inferRange(value: number): [number, number, number] {
+  const magnitude = Math.abs(value) || 1;
+  const max = magnitude * 4;
+  const min = value < 0 ? -max : 0;
+  const step = Number.isInteger(value) && magnitude >= 1 ? 1 : magnitude / 100;
+  return [min, max, step];
+}
+
+function addControls<Config extends object>(
+  folder: GUI,
+  target: Record<string, unknown>,
+  path: string,
+  scene: TunableScene<Config>
+): void {
+  for (const [key, value] of Object.entries(target)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (scene.exclude?.some((pattern) => matchesPath(pattern, keyPath))) continue;
+    const hint = findHint(scene.fields, keyPath);
+
+    // Nested objects and arrays of numbers (vectors, keyframes) get their own folder
+    if (isPlainObject(value) || (Array.isArray(value) && value.every((item) => typeof item !== "string"))) {
+      const child = folder.addFolder(hint.label ?? toLabel(key));
+      addControls(child, value as Record<string, unknown>, keyPath, scene);
+      child.close();
+      continue;
+    }
+
+    let controller: Controller;
+    if (hint.options) {
+      controller = folder.add(target, key, [...hint.options]);
+    } else if (typeof value === "boolean") {
+      controller = folder.add(target, key);
+    } else if (typeof value === "number") {
+      const [min, max, step] = inferRange(value);
+      controller = folder.add(target, key, hint.min ?? min, hint.max ?? max, hint.step ?? step);
+    } else if (typeof value === "string" && COLOR_PATTERN.test(value)) {
+      controller = folder.addColor(target, key);
+    } else if (typeof value === "string") {
+      controller = folder.add(target, key);
+    } else {
+      continue; // undefined (auto) values and string lists have no sensible control
+    }
+
+    controller
+      .name(hint.label ?? toLabel(key))
+      .onChange((newValue: unknown) => scene.onChange(keyPath, newValue, scene.config));
+  }
+}
+
+// Adds a folder for `scene` to the shared panel
+export function registerTunableScene<Config extends object>(scene: TunableScene<Config>): TunableSceneHandle {
+  const folder = getGui().addFolder(scene.name);
+  addControls(folder, scene.config as Record<string, unknown>, "", scene);
+
+  for (const [label, action] of Object.entries(scene.actions ?? {})) {
+    folder.add({ [label]: action }, label);
+  }
+  folder.close();
+
+  return {
+    refresh: () => {
+      for (const controller of folder.controllersRecursive()) {
+        controller.updateDisplay();
+      }
+    },
+    dispose: () => folder.destroy(),
+  };
+}
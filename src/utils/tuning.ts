@@ -0,0 +1,9 @@
+// Dev-only tuning panel loader. Resolves with the panel module in dev builds when the page has the
+// ?tune query flag, null otherwise. Production builds replace import.meta.env.DEV with false, so
+// the import below, lil-gui included, is dropped from the bundle
+export function loadTuningPanel(): Promise<typeof import("./tuning-panel") | null> {
+  if (import.meta.env.DEV && new URLSearchParams(window.location.search).has("tune")) {
+    return import("./tuning-panel");
+  }
+  return Promise.resolve(null);
+}